@@ -0,0 +1,14 @@
+// Copy the pdf.js worker into public/ so the viewer loads it from the app
+// itself, at the version of pdfjs-dist that is installed. Runs after npm install.
+import { copyFileSync, mkdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const require = createRequire(import.meta.url);
+const source = require.resolve("pdfjs-dist/build/pdf.worker.min.js");
+const target = fileURLToPath(new URL("../public/pdf.worker.min.js", import.meta.url));
+
+mkdirSync(path.dirname(target), { recursive: true });
+copyFileSync(source, target);
+console.log(`Copied the pdf.js worker to ${path.relative(process.cwd(), target)}`);
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { DobbyModel, Message } from "@/utils/fireworks";
+import { ProviderError, callModel, streamModel } from "@/utils/llm";
+import {
+  createRateLimiter,
+  getSession,
+  rateLimitedResponse,
+  withSessionCookie,
+} from "@/utils/rateLimit";
+
+const chatLimiter = createRateLimiter({ limit: 30, windowMs: 60_000 });
+
+// Generous for an 8K-context model; anything larger is not a chat from the app
+const MAX_CHAT_MESSAGES = 100;
+const MAX_CHAT_BODY_BYTES = 256 * 1024;
+
+const DOBBY_MODELS: DobbyModel[] = ["leashed", "unhinged"];
+const ROLES: Message["role"][] = ["system", "user", "assistant"];
+
+interface ChatRequest {
+  messages: Message[];
+  model: DobbyModel;
+  stream?: boolean;
+}
+
+function parseChatRequest(body: unknown): ChatRequest | null {
+  if (typeof body !== "object" || body === null) return null;
+  const { messages, model, stream } = body as Record<string, unknown>;
+
+  if (!DOBBY_MODELS.includes(model as DobbyModel)) return null;
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_CHAT_MESSAGES) return null;
+  const valid = messages.every(
+    (m) =>
+      typeof m === "object" &&
+      m !== null &&
+      ROLES.includes(m.role) &&
+      typeof m.content === "string"
+  );
+  if (!valid) return null;
+
+  return { messages, model: model as DobbyModel, stream: stream === true };
+}
+
+// The body as text, or null once it grows past `maxBytes` (read no further than that)
+async function readBody(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get("content-length")) > maxBytes) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Status for a failed completion: the provider's auth, rate-limit and timeout
+// failures keep their meaning for the client; anything else is a bad gateway
+function errorStatus(error: unknown): number {
+  if (!(error instanceof ProviderError)) return 502;
+  if (error.status === 401 || error.status === 403) return 401;
+  if (error.status === 429) return 429;
+  if (error.status === 408 || error.status === 504) return 504;
+  return 502;
+}
+
+/**
+ * Proxy a chat completion to the provider backing the requested Dobby.
+ * With `stream: true` the reply is sent as plain-text deltas; otherwise as `{ content }`.
+ */
+export async function POST(request: NextRequest) {
+  const session = getSession(request);
+  const { allowed, retryAfterSeconds } = chatLimiter.check(session.limitKey);
+  if (!allowed) {
+    return withSessionCookie(rateLimitedResponse(retryAfterSeconds), session);
+  }
+
+  const rawBody = await readBody(request, MAX_CHAT_BODY_BYTES);
+  if (rawBody === null) {
+    return withSessionCookie(
+      NextResponse.json({ error: "Chat request too large" }, { status: 413 }),
+      session
+    );
+  }
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(rawBody);
+  } catch {
+    // Reported as an invalid request below
+  }
+  const chatRequest = parseChatRequest(parsed);
+  if (!chatRequest) {
+    return withSessionCookie(
+      NextResponse.json({ error: "Invalid chat request" }, { status: 400 }),
+      session
+    );
+  }
+  const { messages, model, stream } = chatRequest;
+
+  try {
+    if (!stream) {
+      const content = await callModel(messages, model, request.signal);
+      return withSessionCookie(NextResponse.json({ content }), session);
+    }
+
+    // Pull the first delta before answering, so configuration and upstream
+    // errors still surface as a proper error status rather than a broken stream
+    const deltas = streamModel(messages, model, request.signal);
+    const first = await deltas.next();
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          if (!first.done) controller.enqueue(encoder.encode(first.value));
+          for await (const delta of deltas) {
+            controller.enqueue(encoder.encode(delta));
+          }
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await deltas.return(undefined);
+      },
+    });
+
+    return withSessionCookie(
+      new NextResponse(body, {
+        headers: {
+          "Content-Type": "text/plain; charset=utf-8",
+          "Cache-Control": "no-cache",
+        },
+      }),
+      session
+    );
+  } catch (error) {
+    console.error("Error in /api/chat:", error);
+    const message = error instanceof Error ? error.message : "Chat request failed";
+    return withSessionCookie(NextResponse.json({ error: message }, { status: errorStatus(error) }), session);
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isDemoMode, readDemoPdf } from "@/utils/demo";
+
+// The PDF of a recorded demo document
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ docHash: string }> }) {
+  const { docHash } = await params;
+  const pdf = isDemoMode() ? await readDemoPdf(docHash) : null;
+  if (!pdf) {
+    return NextResponse.json({ error: "No demo document with this hash" }, { status: 404 });
+  }
+  return new NextResponse(new Uint8Array(pdf), { headers: { "Content-Type": "application/pdf" } });
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isDemoMode, readRecording } from "@/utils/demo";
+
+/**
+ * The recorded Marker response for the PDF with this SHA-256, in the shape
+ * /api/process-pdf returns. 404 outside demo mode or when none was recorded.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ docHash: string }> }) {
+  const { docHash } = await params;
+  const recording = isDemoMode() ? await readRecording(docHash) : null;
+  if (!recording) {
+    return NextResponse.json({ error: "No recorded response for this PDF" }, { status: 404 });
+  }
+  return NextResponse.json(recording);
+}
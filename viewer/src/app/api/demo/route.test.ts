@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { buildDocumentModel } from "@/utils/documentModel";
+import { GET as getStatus } from "./route";
+import { GET as getRecording } from "./[docHash]/route";
+import { GET as getPdf } from "./[docHash]/pdf/route";
+
+// Runs against the repo's own recordings in backend/cache and PDFs in uploads/
+const DEEPSEEK_R1 = "56a2c7547c9222f7365cbc6a8b80f8ad05629726e3d3a0615ca4f397b5d8e1aa";
+// Recorded, but its PDF is not in uploads/
+const RECORDING_ONLY = "fb08865c607c7e36be1e3449ed1eaf8beba93d94220b0ab6212b427da4cc7796";
+
+function request(docHash: string) {
+  return [new NextRequest(`http://localhost/api/demo/${docHash}`), { params: Promise.resolve({ docHash }) }] as const;
+}
+
+describe("/api/demo outside demo mode", () => {
+  beforeEach(() => vi.stubEnv("DEMO_MODE", ""));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("reports demo mode off", async () => {
+    expect(await (await getStatus()).json()).toEqual({ enabled: false, documents: [] });
+  });
+
+  it("serves no recordings or PDFs", async () => {
+    expect((await getRecording(...request(DEEPSEEK_R1))).status).toBe(404);
+    expect((await getPdf(...request(DEEPSEEK_R1))).status).toBe(404);
+  });
+});
+
+describe("/api/demo in demo mode", () => {
+  beforeEach(() => vi.stubEnv("DEMO_MODE", "1"));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("lists recorded documents that have a PDF, once each", async () => {
+    const { enabled, documents } = await (await getStatus()).json();
+
+    expect(enabled).toBe(true);
+    expect(documents).toEqual([
+      {
+        docHash: DEEPSEEK_R1,
+        title: "DeepSeek-R1: Incentivizing Reasoning Capability in LLMs via Reinforcement Learning",
+        fileName: expect.stringMatching(/\.pdf$/),
+        pageCount: 10,
+      },
+    ]);
+  });
+
+  it("replays a recording the document model accepts", async () => {
+    const response = await getRecording(...request(DEEPSEEK_R1));
+
+    expect(response.status).toBe(200);
+    expect(buildDocumentModel(await response.json()).pageCount).toBe(10);
+  });
+
+  it("serves the PDF of a listed document", async () => {
+    const response = await getPdf(...request(DEEPSEEK_R1));
+    const bytes = Buffer.from(await response.arrayBuffer());
+
+    expect(response.headers.get("Content-Type")).toBe("application/pdf");
+    expect(bytes.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+
+  it("answers 404 for unknown documents and paths that are not hashes", async () => {
+    expect((await getRecording(...request("0".repeat(64)))).status).toBe(404);
+    expect((await getRecording(...request("../../package"))).status).toBe(404);
+    expect((await getPdf(...request(RECORDING_ONLY))).status).toBe(404);
+  });
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { isDemoMode, listDemoDocuments } from "@/utils/demo";
+
+/**
+ * Report whether the server runs in demo mode and, if so, the recorded
+ * documents the start screen can open without the PDF backend.
+ */
+export async function GET() {
+  if (!isDemoMode()) return NextResponse.json({ enabled: false, documents: [] });
+  return NextResponse.json({ enabled: true, documents: await listDemoDocuments() });
+}
@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { ConfigError, errorFromResponse, isTransient } from "@/utils/apiErrors";
+import { POST } from "./route";
+
+function speechRequest() {
+  return new NextRequest("http://localhost/api/tts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text: "Hello", voiceId: "abc123" }),
+  });
+}
+
+describe("/api/tts without an ElevenLabs key", () => {
+  beforeEach(() => {
+    vi.stubEnv("DEMO_MODE", "");
+    vi.stubEnv("ELEVENLABS_API_KEY", "");
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("reports a configuration error the client does not retry", async () => {
+    const response = await POST(speechRequest());
+    expect(response.status).toBe(503);
+
+    const error = await errorFromResponse(response, "Speech");
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(isTransient(error)).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ElevenLabsClient } from "elevenlabs";
+import {
+  createRateLimiter,
+  getSession,
+  rateLimitedResponse,
+  withSessionCookie,
+} from "@/utils/rateLimit";
+import { isDemoMode } from "@/utils/demo";
+import { NOT_CONFIGURED } from "@/utils/apiErrors";
+
+// Speech is the expensive call, so it gets a tighter budget than chat
+const ttsLimiter = createRateLimiter({ limit: 10, windowMs: 60_000 });
+
+const MAX_TTS_CHARS = 5000;
+
+/**
+ * Report whether ElevenLabs is configured, so clients can fall back to the
+ * browser's own speech synthesis without a failed request per sentence.
+ * Demo mode never calls ElevenLabs.
+ */
+export async function GET() {
+  return NextResponse.json({ available: !isDemoMode() && Boolean(process.env.ELEVENLABS_API_KEY) });
+}
+
+/**
+ * Synthesize `text` with the given ElevenLabs voice and stream back the MP3.
+ */
+export async function POST(request: NextRequest) {
+  if (isDemoMode()) {
+    return NextResponse.json({ error: "Text-to-speech is off in demo mode" }, { status: 404 });
+  }
+
+  const session = getSession(request);
+  const { allowed, retryAfterSeconds } = ttsLimiter.check(session.limitKey);
+  if (!allowed) {
+    return withSessionCookie(rateLimitedResponse(retryAfterSeconds), session);
+  }
+
+  const body = await request.json().catch(() => null);
+  const text = body?.text;
+  const voiceId = body?.voiceId;
+  if (
+    typeof text !== "string" ||
+    !text.trim() ||
+    text.length > MAX_TTS_CHARS ||
+    typeof voiceId !== "string" ||
+    !/^[A-Za-z0-9]+$/.test(voiceId)
+  ) {
+    return withSessionCookie(
+      NextResponse.json({ error: "Invalid text-to-speech request" }, { status: 400 }),
+      session
+    );
+  }
+
+  // A configuration problem, not a failure: the client must not retry it
+  const apiKey = process.env.ELEVENLABS_API_KEY;
+  if (!apiKey) {
+    return withSessionCookie(
+      NextResponse.json({ error: "Missing ElevenLabs API key", code: NOT_CONFIGURED }, { status: 503 }),
+      session
+    );
+  }
+
+  try {
+    const elevenClient = new ElevenLabsClient({ apiKey });
+    const audioStream = await elevenClient.textToSpeech.convertAsStream(voiceId, {
+      text,
+      model_id: "eleven_multilingual_v2",
+    });
+
+    const audio = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of audioStream) {
+            controller.enqueue(chunk);
+          }
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel() {
+        audioStream.destroy();
+      },
+    });
+
+    return withSessionCookie(
+      new NextResponse(audio, { headers: { "Content-Type": "audio/mpeg" } }),
+      session
+    );
+  } catch (error) {
+    console.error("Error in /api/tts:", error);
+    const message = error instanceof Error ? error.message : "Text-to-speech request failed";
+    return withSessionCookie(NextResponse.json({ error: message }, { status: 502 }), session);
+  }
+}
@@ -1,37 +1,104 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import type { Block } from "../pdf/PDFViewer";
-import { callFireworksAI, type Message, type DobbyModel, stripHtml } from "@/utils/fireworks";
-import { ElevenLabsClient } from "elevenlabs";
-
-// Global state to store conversations per block
-const blockConversations: { [blockId: string]: Message[] } = {};
+import type { Block } from "@/utils/documentModel";
+import type { Message } from "@/utils/fireworks";
+import {
+  buildBlockContext,
+  findCaption,
+  getBlockImage,
+  inReadingOrder,
+  isChatBlock,
+  presetsFor,
+  selectionKey,
+} from "@/utils/blockContext";
+import { getDemoStatus } from "@/utils/api";
+import { DOBBY_VOICES, getSpeech } from "@/utils/speech";
+import {
+  BUILT_IN_PERSONAS,
+  PERSONA_COLORS,
+  type Persona,
+  messagePersona,
+  replySpeaker,
+} from "@/utils/personas";
+import PersonaEditor from "./PersonaEditor";
+import ErrorBanner from "./ErrorBanner";
+import MarkdownMessage from "./MarkdownMessage";
+import SummaryDivider from "./SummaryDivider";
+import { chatTurns, useChat } from "./useChat";
+import BlockHtml from "../pdf/BlockHtml";
+import { describeError } from "@/utils/apiErrors";
+import {
+  type DebateConfig,
+  type DebateSides,
+  DEFAULT_DEBATE_TOPIC,
+  MAX_DEBATE_ROUNDS,
+  MODERATOR_MODEL,
+  debateOpening,
+  debateSummaryMessages,
+  debateTurnMessages,
+  nextSpeaker,
+} from "@/utils/debate";
+import { isRollingSummary, latestSummaryIndex } from "@/utils/contextBudget";
 
 interface ChatPaneProps {
-  block: Block;
+  // The selected block(s) being discussed
+  blocks: Block[];
+  // Every flattened block of the document, for surrounding context
+  documentBlocks: Block[];
+  // Document-level image map from the backend, for figures
+  documentImages: { [name: string]: string };
+  // Saved chat turns for this selection, with any rolling summaries but no block context
+  conversation: Message[];
+  onConversationChange: (key: string, messages: Message[]) => void;
+  // Everyone Dobby can be; built-ins first
+  personas: Persona[];
+  onSavePersona: (persona: Persona) => void;
+  onDeletePersona: (persona: Persona) => void;
+  // Open a quiz on the section around the selection
+  onQuiz: (blocks: Block[]) => void;
+  // The selection translated in translation mode, shown in place of the original
+  translation?: { language: string; text: string } | null;
   onClose: () => void;
 }
 
-export default function ChatPane({ block, onClose }: ChatPaneProps) {
-  // Initialize ElevenLabs client
-  const elevenClient = new ElevenLabsClient({
-    apiKey: process.env.NEXT_PUBLIC_ELEVENLABS_API_KEY || "",
-  });
-
-  // Initialize messages from block conversation history or create new with system message
-  const [messages, setMessages] = useState<Message[]>(() => {
-    if (!blockConversations[block.id]) {
-      blockConversations[block.id] = [
-        {
-          role: "system",
-          content: `The user is reading this part of the text:\n\n${stripHtml(
-            block.html
-          )}\n\nUse this when answering questions.`,
-        },
-      ];
-    }
-    return blockConversations[block.id];
+export default function ChatPane({
+  blocks,
+  documentBlocks,
+  documentImages,
+  conversation,
+  onConversationChange,
+  personas,
+  onSavePersona,
+  onDeletePersona,
+  onQuiz,
+  translation,
+  onClose,
+}: ChatPaneProps) {
+  const conversationKey = selectionKey(blocks);
+  const orderedBlocks = inReadingOrder(blocks, documentBlocks);
+
+  // The saved conversation behind a fresh block context
+  const {
+    messages,
+    setMessages,
+    isLoading,
+    setIsLoading,
+    loadingPersona,
+    setLoadingPersona,
+    condensing,
+    error,
+    setError,
+    streamingReply,
+    streamReply,
+    streamPersonaReply,
+    send,
+    stop,
+  } = useChat({
+    conversationKey,
+    conversation,
+    onConversationChange,
+    initialContext: () => buildBlockContext(blocks, documentBlocks),
   });
 
   // Track which message is currently being spoken
@@ -39,46 +106,48 @@ export default function ChatPane({ block, onClose }: ChatPaneProps) {
 
   // The current user-typed message
   const [newMessage, setNewMessage] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingModel, setLoadingModel] = useState<DobbyModel | null>(null);
-  const [model, setModel] = useState<DobbyModel>('unhinged');
-  
+  const [personaId, setPersonaId] = useState('unhinged');
+  const [personaEditorOpen, setPersonaEditorOpen] = useState(false);
+  // Fall back to the first persona if the chosen one was deleted
+  const persona = personas.find(p => p.id === personaId) ?? personas[0] ?? BUILT_IN_PERSONAS[0];
+
+  // Dobby vs. Dobby setup form; the debate itself streams into the chat
+  const [debateSetupOpen, setDebateSetupOpen] = useState(false);
+  const [debateConfig, setDebateConfig] = useState<DebateConfig>({
+    topic: "",
+    rounds: 2,
+    defenderId: 'unhinged',
+    challengerId: 'leashed',
+  });
+  // Any two different personas can debate; a deleted one leaves the debate unset
+  const defender = personas.find(p => p.id === debateConfig.defenderId);
+  const challenger = personas.find(p => p.id === debateConfig.challengerId);
+  const debateSides: DebateSides | null =
+    defender && challenger && defender.id !== challenger.id ? { defender, challenger } : null;
+  const [moderating, setModerating] = useState(false);
+
+  // Lets the reader peek at the original while a translation is shown
+  const [showOriginal, setShowOriginal] = useState(false);
+
   // State for tracking width
   const [width, setWidth] = useState(500);
   const [isResizing, setIsResizing] = useState(false);
 
-  // Update block conversations whenever messages change
-  useEffect(() => {
-    blockConversations[block.id] = messages;
-  }, [messages, block.id]);
-
   /**
-   * Generate and play TTS audio for an assistant message using ElevenLabs
+   * Generate and play TTS audio for an assistant message via the /api/tts route
    */
   const handleSpeak = async (msg: Message, messageId: number) => {
     if (msg.role !== "assistant") return;
+    // Demo mode has no speech service; skip quietly rather than report an error
+    if ((await getDemoStatus()).enabled) return;
 
     try {
       setSpeakingMessageId(messageId);
 
-      // Use different voices for leashed vs unhinged Dobby
-      const voiceId = msg.modelUsed === 'leashed' 
-        ? "ThT5KcBeYPX3keUQqHPh" // Charlie (cheerful)
-        : "VR6AewLTigWG4xSOukaG"; // Adam (deep)
-
-      const audioStream = await elevenClient.textToSpeech.convertAsStream(voiceId, {
-        text: msg.content,
-        model_id: "eleven_multilingual_v2",
-      });
-
-      // Gather the streamed chunks
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of audioStream) {
-        chunks.push(chunk);
-      }
-
-      // Combine chunks into a Blob
-      const blob = new Blob(chunks, { type: "audio/mpeg" });
+      // Speak in the answering persona's voice; replays come from the cache
+      const voiceId = messagePersona(personas, msg)?.voiceId ??
+        DOBBY_VOICES[msg.modelUsed === 'leashed' ? 'leashed' : 'unhinged'];
+      const blob = await getSpeech(msg.content, voiceId);
       const url = URL.createObjectURL(blob);
 
       // Create and play audio
@@ -113,107 +182,66 @@ export default function ChatPane({ block, onClose }: ChatPaneProps) {
       }
     } catch (err) {
       console.error("Error generating TTS audio:", err);
+      setError({ message: `Couldn't play that message: ${describeError(err)}` });
       setSpeakingMessageId(null);
     }
   };
 
-  const handleSend = async (messageText: string) => {
+  const handleSend = (messageText: string) => {
     if (!messageText.trim() || isLoading) return;
-
-    const messageContent = messageText.trim();
-    const userMsg: Message = { role: "user", content: messageContent };
-    
     setNewMessage("");
-    setIsLoading(true);
-    setLoadingModel(model);
-
-    try {
-      setMessages(prev => [...prev, userMsg]);
-
-      const apiKey = process.env.NEXT_PUBLIC_FIREWORKS_API_KEY;
-      if (!apiKey) {
-        throw new Error("Missing Fireworks API key");
-      }
+    send(messageText, persona);
+  };
 
-      const aiResponse = await callFireworksAI(apiKey, [...messages, userMsg], model);
-      
-      const aiMsg: Message = { 
-        role: "assistant", 
-        content: aiResponse,
-        modelUsed: model
-      };
-      setMessages(prev => [...prev, aiMsg]);
-    } catch (error) {
-      console.error("Error getting AI response:", error);
-      setMessages(prev => prev.filter((_, i) => i !== prev.length - 1));
-      setNewMessage(messageContent);
-    } finally {
-      setIsLoading(false);
-      setLoadingModel(null);
-    }
+  // Send a failed question again, moving it to the end of the chat
+  const handleRetry = (failedMessage: Message) => {
+    send(failedMessage.content, persona, { replacing: failedMessage });
   };
 
-  const handleDobbyVsDobby = async () => {
-    if (isLoading) return;
+  /**
+   * Run a Dobby vs. Dobby debate: the two sides alternate for the configured number
+   * of rounds, each seeing the whole exchange, then a moderator sums it up.
+   * Stopping any turn ends the debate without a summary.
+   */
+  const handleStartDebate = async () => {
+    if (isLoading || !debateSides) return;
+    const sides = debateSides;
+    const config = { ...debateConfig, topic: debateConfig.topic.trim() || DEFAULT_DEBATE_TOPIC };
+    const system = messages[0];
+
+    setDebateSetupOpen(false);
+    setError(null);
     setIsLoading(true);
-    setLoadingModel('unhinged');
+    setMessages(prev => [...prev, debateOpening(config, sides)]);
 
     try {
-      const apiKey = process.env.NEXT_PUBLIC_FIREWORKS_API_KEY;
-      if (!apiKey) throw new Error("Missing Fireworks API key");
-
-      // 1. Get Unhinged Dobby's thoughts
-      const unhingedPrompt: Message = {
-        role: "user",
-        content: "Say something unhinged about this text!"
-      };
-
-      const unhingedResponse = await callFireworksAI(
-        apiKey, 
-        [...messages, unhingedPrompt], 
-        "unhinged"
-      );
-
-      const unhingedMsg: Message = {
-        role: "assistant",
-        content: unhingedResponse,
-        modelUsed: "unhinged"
-      };
-
-      // Update messages with unhinged response
-      setMessages(prev => [...prev, unhingedMsg]);
-
-      // Switch loading state to leashed
-      setLoadingModel('leashed');
-
-      // 2. Get Leashed Dobby's response
-      const leashedPrompt: Message = {
-        role: "user",
-        content: `Respond to these unhinged thoughts.`
-      };
-
-      const leashedResponse = await callFireworksAI(
-        apiKey,
-        [...messages, unhingedMsg, leashedPrompt],
-        "leashed"
-      );
-
-      const leashedMsg: Message = {
-        role: "assistant",
-        content: leashedResponse,
-        modelUsed: "leashed"
-      };
+      const turns: Message[] = [];
+      for (let i = 0; i < config.rounds * 2; i++) {
+        const speaker = nextSpeaker(sides, i);
+        setLoadingPersona(speaker);
+        const turn = await streamPersonaReply(debateTurnMessages(system, config, sides, turns), speaker);
+        if (!turn) return;
+        turns.push(turn);
+      }
 
-      // Update messages with leashed response
-      setMessages(prev => [...prev, leashedMsg]);
+      setLoadingPersona(null);
+      setModerating(true);
+      await streamReply(debateSummaryMessages(system, config, sides, turns), MODERATOR_MODEL, { moderator: true });
     } catch (error) {
       console.error("Error in Dobby vs. Dobby:", error);
+      setError({ message: `The debate stopped: ${describeError(error)}` });
     } finally {
       setIsLoading(false);
-      setLoadingModel(null);
+      setLoadingPersona(null);
+      setModerating(false);
     }
   };
 
+  const handleClearChat = () => {
+    if (!window.confirm("Clear the conversation for this selection?")) return;
+    setMessages(prev => prev.filter(m => m.role === 'system' && !isRollingSummary(m)));
+  };
+
   const handleInputSend = () => {
     handleSend(newMessage);
   };
@@ -259,13 +287,22 @@ export default function ChatPane({ block, onClose }: ChatPaneProps) {
     };
   }, [isResizing]);
 
-  // Filter out system messages for display
-  const displayMessages = messages.filter(m => m.role !== 'system');
+  // Filter out the block context for display; rolling summaries show as dividers
+  const displayMessages = chatTurns(messages);
+  // Turns before the latest summary are only sent to Dobby in condensed form
+  const condensedBefore = latestSummaryIndex(displayMessages);
+
+  // Show the streaming reply as a regular bubble once its first tokens arrive
+  const shownMessages = streamingReply?.content
+    ? [...displayMessages, streamingReply]
+    : displayMessages;
 
   return (
     <div 
       style={{ width: `${width}px` }}
       className="bg-white text-gray-800 border-l border-gray-300 flex flex-col h-full relative"
+      role="complementary"
+      aria-label="Chat with Dobby"
     >
       {/* Resize handle */}
       <div
@@ -278,95 +315,215 @@ export default function ChatPane({ block, onClose }: ChatPaneProps) {
         <div className="flex items-center gap-3">
           <h2 className="font-semibold">Read with Dobby</h2>
         </div>
-        <button onClick={onClose} className="text-sm text-gray-700 hover:text-black">
-          ✕
-        </button>
+        <div className="flex items-center gap-3">
+          {displayMessages.length > 0 && (
+            <button
+              onClick={handleClearChat}
+              disabled={isLoading}
+              className="text-xs text-gray-600 hover:text-black disabled:opacity-50"
+              title="Clear this selection's conversation"
+            >
+              Clear chat
+            </button>
+          )}
+          <button onClick={onClose} className="text-sm text-gray-700 hover:text-black">
+            ✕
+          </button>
+        </div>
       </div>
 
       {/* Block Content Display */}
       <div className="p-3 border-b border-gray-300">
-        <h3 className="font-semibold mb-2">Current Reading:</h3>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">
+            Current Reading{blocks.length > 1 ? ` (${blocks.length} blocks)` : ""}:
+          </h3>
+          {translation && (
+            <button
+              onClick={() => setShowOriginal(on => !on)}
+              className="text-xs text-sky-700 hover:text-sky-900"
+              aria-pressed={!showOriginal}
+            >
+              {showOriginal ? `Show ${translation.language}` : "Show original"}
+            </button>
+          )}
+        </div>
         <div
           className="p-2 bg-gray-50 text-gray-900 rounded text-sm 
                      overflow-auto resize-y 
-                     min-h-[60px] max-h-[300px]" 
-          dangerouslySetInnerHTML={{ __html: block.html }}
-        />
+                     min-h-[60px] max-h-[300px] space-y-2" 
+        >
+          {translation && !showOriginal ? (
+            <MarkdownMessage content={translation.text} />
+          ) : orderedBlocks.map(b => {
+            const image = getBlockImage(b, documentImages);
+            // Figures have no HTML of their own; pair the image with its caption
+            const caption = image ? findCaption(b, documentBlocks) : null;
+            return (
+              <div key={b.id}>
+                {image && (
+                  // eslint-disable-next-line @next/next/no-img-element -- inline data URL from Marker
+                  <img src={image} alt={b.block_type} className="max-w-full mx-auto" />
+                )}
+                <BlockHtml html={caption ? caption.html : b.html} />
+              </div>
+            );
+          })}
+        </div>
       </div>
 
       {/* Chat area */}
-      {block.block_type.toLowerCase() === "text" ? (
+      {blocks.every(isChatBlock) ? (
         <div className="flex-1 flex flex-col min-h-0">
           {/* Messages */}
-          <div className="flex-1 p-3 overflow-y-auto space-y-3 min-h-0">
+          <div className="flex-1 p-3 overflow-y-auto space-y-3 min-h-0" aria-live="polite">
             {/* Preset message buttons */}
             <div className="flex gap-2 mb-4">
+              {presetsFor(blocks).map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => handleSend(preset.prompt)}
+                  disabled={isLoading}
+                  className={`px-3 py-1.5 rounded text-sm text-white transition-colors ${
+                    isLoading
+                      ? `${PERSONA_COLORS[persona.color].muted} cursor-not-allowed`
+                      : PERSONA_COLORS[persona.color].button
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
               <button
-                onClick={() => handleSend("Summarize this briefly")}
-                disabled={isLoading}
-                className={`px-3 py-1.5 rounded text-sm text-white transition-colors ${
-                  isLoading 
-                    ? `${model === 'leashed' ? 'bg-blue-400' : 'bg-red-400'} cursor-not-allowed` 
-                    : model === 'leashed'
-                      ? 'bg-blue-600 hover:bg-blue-700'
-                      : 'bg-red-600 hover:bg-red-700'
-                }`}
-              >
-                Summarize {model === 'leashed' ? '😇' : '😈'}
-              </button>
-              <button
-                onClick={() => handleSend("Teach this to me")}
+                onClick={() => setDebateSetupOpen(open => !open)}
                 disabled={isLoading}
-                className={`px-3 py-1.5 rounded text-sm text-white transition-colors ${
-                  isLoading 
-                    ? `${model === 'leashed' ? 'bg-blue-400' : 'bg-red-400'} cursor-not-allowed` 
-                    : model === 'leashed'
-                      ? 'bg-blue-600 hover:bg-blue-700'
-                      : 'bg-red-600 hover:bg-red-700'
-                }`}
+                aria-expanded={debateSetupOpen}
+                className="px-3 py-1.5 rounded text-sm text-white transition-colors bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 disabled:cursor-not-allowed"
               >
-                Teach me {model === 'leashed' ? '😇' : '😈'}
+                Dobby vs. Dobby 🤼
               </button>
               <button
-                onClick={handleDobbyVsDobby}
+                onClick={() => onQuiz(orderedBlocks)}
                 disabled={isLoading}
-                className="px-3 py-1.5 rounded text-sm text-white transition-colors bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 disabled:cursor-not-allowed"
+                className="px-3 py-1.5 rounded text-sm text-white transition-colors bg-green-600 hover:bg-green-700 disabled:bg-green-400 disabled:cursor-not-allowed"
+                title="Quiz yourself on this section"
               >
-                Dobby vs. Dobby 🤼
+                Quiz me 📝
               </button>
             </div>
 
+            {personaEditorOpen && (
+              <PersonaEditor
+                personas={personas}
+                onSave={onSavePersona}
+                onDelete={onDeletePersona}
+                onClose={() => setPersonaEditorOpen(false)}
+              />
+            )}
+
+            {/* Debate setup */}
+            {debateSetupOpen && !isLoading && (
+              <div className="p-2 mb-4 space-y-2 text-sm bg-purple-50 border border-purple-200 rounded">
+                <textarea
+                  value={debateConfig.topic}
+                  onChange={(e) => setDebateConfig(c => ({ ...c, topic: e.target.value }))}
+                  placeholder={`Claim to debate (default: "${DEFAULT_DEBATE_TOPIC}")`}
+                  className="w-full p-1.5 border rounded"
+                  rows={2}
+                  aria-label="Claim to debate"
+                />
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-1">
+                    Rounds
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_DEBATE_ROUNDS}
+                      value={debateConfig.rounds}
+                      onChange={(e) => setDebateConfig(c => ({
+                        ...c,
+                        rounds: Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_DEBATE_ROUNDS),
+                      }))}
+                      className="w-12 p-1 border rounded"
+                    />
+                  </label>
+                  <button
+                    onClick={handleStartDebate}
+                    disabled={!debateSides}
+                    className="ml-auto px-3 py-1 rounded text-white bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 disabled:cursor-not-allowed"
+                  >
+                    Start debate
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  {([
+                    ['defenderId', 'Defends'],
+                    ['challengerId', 'Challenges'],
+                  ] as const).map(([side, label]) => (
+                    <label key={side} className="flex items-center gap-1">
+                      {label}
+                      <select
+                        value={debateConfig[side]}
+                        onChange={(e) => setDebateConfig(c => ({ ...c, [side]: e.target.value }))}
+                        className="p-1 border rounded"
+                      >
+                        {personas.map(p => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {debateSides
+                    ? "The defender opens, the challenger answers, and a moderator sums up."
+                    : "Pick two different personas to debate."}
+                </p>
+              </div>
+            )}
+
             {/* Message history */}
-            {displayMessages.map((m, idx) => {
+            {shownMessages.map((m, idx) => {
+              if (isRollingSummary(m)) return <SummaryDivider key={idx} summary={m} />;
+
               const isAssistant = m.role === "assistant";
-              const isLeashed = m.modelUsed === "leashed";
+              const speaker = isAssistant && !m.moderator ? replySpeaker(personas, m) : null;
+              const author = speaker?.persona ?? null;
               let bubbleClasses = "";
               let label = "";
 
               if (isAssistant) {
-                if (isLeashed) {
-                  bubbleClasses = "bg-blue-100 text-gray-800";
-                  label = "Dobby 😇";
+                if (speaker) {
+                  bubbleClasses = `${speaker.bubble} text-gray-800`;
+                  label = speaker.name;
                 } else {
-                  bubbleClasses = "bg-red-100 text-gray-800";
-                  label = "Dobby 😈";
+                  bubbleClasses = "bg-purple-50 border border-purple-200 text-gray-800";
+                  label = "Moderator ⚖️";
                 }
               } else {
-                bubbleClasses = "bg-gray-700 text-white";
+                bubbleClasses = `bg-gray-700 text-white ${m.failed ? "ring-2 ring-red-400" : ""}`;
                 label = "You";
               }
 
               const isSpeaking = speakingMessageId === idx;
+              const isStreaming = idx === displayMessages.length;
+              const isCondensed = idx < condensedBefore;
 
               return (
                 <div
                   key={idx}
-                  className={`flex ${m.role === "user" ? "justify-end" : "justify-start"}`}
+                  className={`flex ${m.role === "user" ? "justify-end" : "justify-start"} ${isCondensed ? "opacity-60" : ""}`}
+                  title={isCondensed ? "Condensed: Dobby sees this turn only through the summary below" : undefined}
                 >
                   <div className={`${bubbleClasses} p-2 rounded text-sm max-w-[80%] flex flex-col gap-1`}>
                     <div className="flex items-center justify-between gap-2">
-                      <strong>{label}:</strong>
-                      {isAssistant && (
+                      <strong className="flex items-center gap-1">
+                        {author && (
+                          // eslint-disable-next-line @next/next/no-img-element -- avatars may be any user-supplied URL
+                          <img src={author.avatar} alt="" className="w-5 h-5 rounded-full object-cover" />
+                        )}
+                        {label}:
+                      </strong>
+                      {isAssistant && !isStreaming && (
                         <button
                           onClick={() => handleSpeak(m, idx)}
                           disabled={speakingMessageId !== null}
@@ -381,19 +538,39 @@ export default function ChatPane({ block, onClose }: ChatPaneProps) {
                         </button>
                       )}
                     </div>
-                    <div>{m.content}</div>
+                    {isAssistant ? (
+                      <MarkdownMessage content={m.content} />
+                    ) : (
+                      <div className="whitespace-pre-wrap">{m.content}</div>
+                    )}
+                    {m.failed && (
+                      <div className="flex items-center gap-2 text-xs text-red-200">
+                        Not answered
+                        <button
+                          onClick={() => handleRetry(m)}
+                          disabled={isLoading}
+                          className="underline hover:text-white disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               );
             })}
-            {isLoading && (
+            {isLoading && !streamingReply?.content && (
               <div className="flex justify-start">
                 <div
                   className={`${
-                    loadingModel === 'leashed' ? 'bg-blue-100' : 'bg-red-100'
+                    loadingPersona ? PERSONA_COLORS[loadingPersona.color].bubble : 'bg-purple-50'
                   } text-gray-800 p-2 rounded text-sm`}
                 >
-                  <em>{loadingModel === 'leashed' ? 'Dobby 😇' : 'Dobby 😈'} is typing...</em>
+                  <em>
+                    {condensing
+                      ? 'Condensing earlier turns...'
+                      : `${moderating ? 'Moderator ⚖️' : loadingPersona?.name ?? 'Dobby'} is typing...`}
+                  </em>
                 </div>
               </div>
             )}
@@ -401,6 +578,15 @@ export default function ChatPane({ block, onClose }: ChatPaneProps) {
 
           {/* Input area */}
           <div className="border-t border-gray-300">
+            {error && (
+              <div className="px-3 pt-3">
+                <ErrorBanner
+                  message={error.message}
+                  onRetry={error.failedMessage && !isLoading ? () => handleRetry(error.failedMessage!) : undefined}
+                  onDismiss={() => setError(null)}
+                />
+              </div>
+            )}
             {/* Message input */}
             <div className="p-3 flex items-center space-x-2">
               <textarea
@@ -412,51 +598,64 @@ export default function ChatPane({ block, onClose }: ChatPaneProps) {
                 rows={1}
                 disabled={isLoading}
               />
+              {isLoading ? (
+                <button
+                  onClick={stop}
+                  className="px-3 py-2 rounded text-white bg-gray-600 hover:bg-gray-700"
+                  title="Stop generating and keep the partial answer"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleInputSend}
+                  className={`px-3 py-2 rounded text-white ${PERSONA_COLORS[persona.color].button}`}
+                >
+                  Send
+                </button>
+              )}
+            </div>
+
+            {/* Persona picker */}
+            <div
+              className="px-3 pb-3 flex flex-wrap items-center justify-center gap-2"
+              role="radiogroup"
+              aria-label="Persona"
+            >
+              {personas.map(p => (
+                <button
+                  key={p.id}
+                  role="radio"
+                  aria-checked={p.id === persona.id}
+                  onClick={() => setPersonaId(p.id)}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-full border text-xs ${
+                    p.id === persona.id
+                      ? `ring-2 ${PERSONA_COLORS[p.color].ring} ${PERSONA_COLORS[p.color].text} font-medium`
+                      : 'text-gray-500 hover:bg-gray-100'
+                  }`}
+                  title={p.systemPrompt || undefined}
+                >
+                  {/* eslint-disable-next-line @next/next/no-img-element -- avatars may be any user-supplied URL */}
+                  <img src={p.avatar} alt="" className="w-5 h-5 rounded-full object-cover" />
+                  {p.name}
+                </button>
+              ))}
               <button
-                onClick={handleInputSend}
-                className={`px-3 py-2 rounded text-white ${
-                  isLoading 
-                    ? `${model === 'leashed' ? 'bg-blue-400' : 'bg-red-400'} cursor-not-allowed` 
-                    : model === 'leashed'
-                      ? 'bg-blue-600 hover:bg-blue-700'
-                      : 'bg-red-600 hover:bg-red-700'
-                }`}
-                disabled={isLoading}
+                onClick={() => setPersonaEditorOpen(open => !open)}
+                aria-expanded={personaEditorOpen}
+                className="px-2 py-1 text-xs text-gray-600 hover:text-black"
+                title="Create and edit personas"
               >
-                Send
+                ✎ Personas
               </button>
             </div>
-
-            {/* Model toggle switch */}
-            <div className="px-3 pb-3">
-              <label className="flex items-center justify-center cursor-pointer">
-                <span className={`mr-2 text-sm ${model === 'leashed' ? 'text-blue-600 font-medium' : 'text-gray-500'}`}>
-                  Leashed 😇
-                </span>
-                <div className="relative">
-                  <input
-                    type="checkbox"
-                    className="sr-only"
-                    checked={model === 'unhinged'}
-                    onChange={() => setModel(m => m === 'leashed' ? 'unhinged' : 'leashed')}
-                  />
-                  <div className={`block w-14 h-8 rounded-full transition-colors duration-300 ${
-                    model === 'leashed' ? 'bg-blue-600' : 'bg-red-600'
-                  }`}></div>
-                  <div className={`dot absolute left-1 top-1 bg-white w-6 h-6 rounded-full transition-transform duration-300 ${
-                    model === 'unhinged' ? 'translate-x-6' : 'translate-x-0'
-                  }`}></div>
-                </div>
-                <span className={`ml-2 text-sm ${model === 'unhinged' ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
-                  Unhinged 😈
-                </span>
-              </label>
-            </div>
           </div>
         </div>
       ) : (
         <div className="p-3 text-gray-700">
-          This block is not recognized as a text block.
+          {blocks.length > 1
+            ? "This selection contains blocks Dobby can't discuss."
+            : "Dobby can't discuss this kind of block."}
         </div>
       )}
     </div>
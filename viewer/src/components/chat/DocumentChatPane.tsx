@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import type { Block } from "@/utils/documentModel";
+import type { Message } from "@/utils/fireworks";
+import { DOCUMENT_CHAT_KEY } from "@/utils/conversationStore";
+import { createBM25Index } from "@/utils/bm25";
+import {
+  buildDocumentContext,
+  isContentBlock,
+  linkCitations,
+  stripBlockText,
+} from "@/utils/blockContext";
+import { isRollingSummary } from "@/utils/contextBudget";
+import { BUILT_IN_PERSONAS, PERSONA_COLORS, type Persona, replySpeaker } from "@/utils/personas";
+import ErrorBanner from "./ErrorBanner";
+import MarkdownMessage from "./MarkdownMessage";
+import SummaryDivider from "./SummaryDivider";
+import { chatTurns, useChat } from "./useChat";
+
+// How many retrieved passages each question sees
+const PASSAGES_PER_QUESTION = 6;
+
+interface DocumentChatPaneProps {
+  documentBlocks: Block[];
+  personas: Persona[];
+  // Saved chat turns for the document chat, with any rolling summaries but no passages
+  conversation: Message[];
+  onConversationChange: (key: string, messages: Message[]) => void;
+  onCitationClick: (block: Block) => void;
+  onClose: () => void;
+}
+
+export default function DocumentChatPane({
+  documentBlocks,
+  personas,
+  conversation,
+  onConversationChange,
+  onCitationClick,
+  onClose,
+}: DocumentChatPaneProps) {
+  const {
+    messages,
+    isLoading,
+    loadingPersona,
+    condensing,
+    error,
+    setError,
+    streamingReply,
+    send,
+    stop,
+  } = useChat({
+    conversationKey: DOCUMENT_CHAT_KEY,
+    conversation,
+    onConversationChange,
+    // Replaced by each question's passages, see ask
+    initialContext: () => buildDocumentContext([]),
+  });
+  const [newMessage, setNewMessage] = useState("");
+  const [personaId, setPersonaId] = useState("leashed");
+  // Fall back to the first persona if the chosen one was deleted
+  const persona = personas.find((p) => p.id === personaId) ?? personas[0] ?? BUILT_IN_PERSONAS[0];
+
+  const blocksById = useMemo(
+    () => new Map(documentBlocks.map((b) => [b.id, b])),
+    [documentBlocks]
+  );
+
+  // Index every block that carries reading text
+  const index = useMemo(
+    () =>
+      createBM25Index(
+        documentBlocks
+          .filter(isContentBlock)
+          .map((b) => ({ id: b.id, text: stripBlockText(b) }))
+          .filter((doc) => doc.text)
+      ),
+    [documentBlocks]
+  );
+
+  // Retrieval is per question, so the system message is rebuilt every turn
+  const ask = (question: string, replacing?: Message) => {
+    const passages = index
+      .search(question, PASSAGES_PER_QUESTION)
+      .map((hit) => blocksById.get(hit.id))
+      .filter((b): b is Block => b !== undefined);
+    send(question, persona, { system: { role: "system", content: buildDocumentContext(passages) }, replacing });
+  };
+
+  const handleSend = () => {
+    if (!newMessage.trim() || isLoading) return;
+    setNewMessage("");
+    ask(newMessage);
+  };
+
+  // Ask a failed question again, moving it to the end of the chat
+  const handleRetry = (failedMessage: Message) => ask(failedMessage.content, failedMessage);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const renderCitation = (blockId: string) => {
+    const block = blocksById.get(blockId);
+    if (!block) return <span>[{blockId}]</span>;
+    return (
+      <button
+        onClick={() => onCitationClick(block)}
+        className="mx-0.5 px-1 rounded bg-white/70 text-xs text-blue-700 hover:underline"
+        title={stripBlockText(block)}
+      >
+        p.{(block.pageIndex ?? 0) + 1}
+      </button>
+    );
+  };
+
+  // The passages are per question and not shown; rolling summaries show as dividers
+  const turns = chatTurns(messages);
+  const shownMessages = streamingReply?.content ? [...turns, streamingReply] : turns;
+
+  return (
+    <div
+      style={{ width: "500px" }}
+      className="bg-white text-gray-800 border-l border-gray-300 flex flex-col h-full"
+    >
+      {/* Header */}
+      <div className="p-3 flex items-center justify-between bg-gray-200 border-b border-gray-300">
+        <h2 className="font-semibold">Ask the whole document</h2>
+        <button onClick={onClose} className="text-sm text-gray-700 hover:text-black">
+          ✕
+        </button>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 p-3 overflow-y-auto space-y-3 min-h-0">
+        {shownMessages.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Ask anything about the document, e.g. &quot;where does the paper define X?&quot;.
+            Dobby answers from the most relevant passages and cites them; click a citation to
+            jump to it.
+          </p>
+        )}
+        {shownMessages.map((m, idx) => {
+          if (isRollingSummary(m)) return <SummaryDivider key={idx} summary={m} />;
+
+          const isAssistant = m.role === "assistant";
+          const speaker = isAssistant ? replySpeaker(personas, m) : null;
+          const bubbleClasses = speaker
+            ? `${speaker.bubble} text-gray-800`
+            : `bg-gray-700 text-white ${m.failed ? "ring-2 ring-red-400" : ""}`;
+          const label = speaker?.name ?? "You";
+
+          return (
+            <div key={idx} className={`flex ${isAssistant ? "justify-start" : "justify-end"}`}>
+              <div className={`${bubbleClasses} p-2 rounded text-sm max-w-[80%] flex flex-col gap-1`}>
+                <strong>{label}:</strong>
+                {isAssistant ? (
+                  <MarkdownMessage content={linkCitations(m.content)} renderCitation={renderCitation} />
+                ) : (
+                  <div className="whitespace-pre-wrap">{m.content}</div>
+                )}
+                {m.failed && (
+                  <div className="flex items-center gap-2 text-xs text-red-200">
+                    Not answered
+                    <button
+                      onClick={() => handleRetry(m)}
+                      disabled={isLoading}
+                      className="underline hover:text-white disabled:opacity-50"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {isLoading && !streamingReply?.content && (
+          <div className="flex justify-start">
+            <div className={`${PERSONA_COLORS[(loadingPersona ?? persona).color].bubble} text-gray-800 p-2 rounded text-sm`}>
+              <em>
+                {condensing
+                  ? "Condensing earlier turns..."
+                  : `${(loadingPersona ?? persona).name} is searching the document...`}
+              </em>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-3 pb-2">
+          <ErrorBanner
+            message={error.message}
+            onRetry={error.failedMessage && !isLoading ? () => handleRetry(error.failedMessage!) : undefined}
+            onDismiss={() => setError(null)}
+          />
+        </div>
+      )}
+
+      {/* Input area */}
+      <div className="border-t border-gray-300 p-3 flex items-center space-x-2">
+        <select
+          value={persona.id}
+          onChange={(e) => setPersonaId(e.target.value)}
+          disabled={isLoading}
+          aria-label="Persona"
+          className={`max-w-[8rem] p-2 rounded border text-sm ${PERSONA_COLORS[persona.color].text} disabled:opacity-50`}
+          title="Who answers"
+        >
+          {personas.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={newMessage}
+          onChange={(e) => setNewMessage(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask about the whole document..."
+          className="flex-1 p-2 border rounded text-sm min-h-[40px] max-h-[120px] resize-y"
+          rows={1}
+          disabled={isLoading}
+        />
+        {isLoading ? (
+          <button
+            onClick={stop}
+            className="px-3 py-2 rounded text-white bg-gray-600 hover:bg-gray-700"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            className="px-3 py-2 rounded text-white bg-purple-600 hover:bg-purple-700"
+          >
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
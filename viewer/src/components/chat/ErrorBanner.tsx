@@ -0,0 +1,28 @@
+"use client";
+
+interface ErrorBannerProps {
+  message: string;
+  // Offered as a Retry button when the failed action can simply be run again
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+// Inline notice for a failed request, shown where the action was taken
+export default function ErrorBanner({ message, onRetry, onDismiss }: ErrorBannerProps) {
+  return (
+    <div
+      role="alert"
+      className="flex items-start gap-2 p-2 rounded border border-red-300 bg-red-50 text-sm text-red-800"
+    >
+      <span className="flex-1">{message}</span>
+      {onRetry && (
+        <button onClick={onRetry} className="shrink-0 font-medium hover:underline">
+          Retry
+        </button>
+      )}
+      <button onClick={onDismiss} className="shrink-0 text-red-600 hover:text-red-900" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+}
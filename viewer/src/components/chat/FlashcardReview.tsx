@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import {
+  type Flashcard,
+  type ReviewRating,
+  REVIEW_RATINGS,
+  isDue,
+  scheduleReview,
+} from "@/utils/flashcards";
+
+interface FlashcardReviewProps {
+  // The document's whole deck; only due cards are reviewed
+  cards: Flashcard[];
+  onReview: (card: Flashcard, rating: ReviewRating) => void;
+  onDelete: (card: Flashcard) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const RATING_STYLES: Record<ReviewRating, string> = {
+  again: "bg-red-600 hover:bg-red-700",
+  hard: "bg-amber-600 hover:bg-amber-700",
+  good: "bg-green-600 hover:bg-green-700",
+  easy: "bg-blue-600 hover:bg-blue-700",
+};
+
+function formatInterval(days: number): string {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+// Spaced-repetition review of the document's flashcards, oldest due first
+export default function FlashcardReview({ cards, onReview, onDelete, onExport, onClose }: FlashcardReviewProps) {
+  const [showAnswer, setShowAnswer] = useState(false);
+
+  const due = cards.filter((card) => isDue(card)).sort((a, b) => a.due - b.due);
+  const card = due[0];
+
+  const handleRate = (rating: ReviewRating) => {
+    onReview(card, rating);
+    setShowAnswer(false);
+  };
+
+  return (
+    <div
+      style={{ width: "500px" }}
+      className="bg-white text-gray-800 border-l border-gray-300 flex flex-col h-full"
+      role="complementary"
+      aria-label="Flashcard review"
+    >
+      {/* Header */}
+      <div className="p-3 flex items-center justify-between bg-gray-200 border-b border-gray-300">
+        <h2 className="font-semibold">Review flashcards</h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onExport}
+            disabled={cards.length === 0}
+            className="text-xs text-gray-600 hover:text-black disabled:opacity-50"
+            title="Download the deck as CSV for Anki"
+          >
+            Export to Anki
+          </button>
+          <button onClick={onClose} className="text-sm text-gray-700 hover:text-black">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 p-3 overflow-y-auto space-y-3 min-h-0 text-sm">
+        <p className="text-xs text-gray-500" aria-live="polite">
+          {due.length} due · {cards.length} in deck
+        </p>
+
+        {!card ? (
+          <p className="text-gray-500">
+            {cards.length === 0
+              ? "No cards yet. Use Quiz me and save questions to build this document's deck."
+              : "Nothing is due. Come back later!"}
+          </p>
+        ) : (
+          <div className="p-3 rounded border border-gray-200 space-y-3">
+            <p className="font-medium">{card.question}</p>
+            {showAnswer ? (
+              <>
+                <p className="p-2 bg-gray-50 rounded">{card.answer}</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {REVIEW_RATINGS.map((rating) => (
+                    <button
+                      key={rating}
+                      onClick={() => handleRate(rating)}
+                      className={`px-2 py-1 rounded text-white text-xs capitalize ${RATING_STYLES[rating]}`}
+                    >
+                      {rating}
+                      <span className="block opacity-80">
+                        {formatInterval(scheduleReview(card, rating).interval)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <button
+                onClick={() => setShowAnswer(true)}
+                className="w-full px-3 py-1.5 rounded text-white bg-purple-600 hover:bg-purple-700"
+              >
+                Show answer
+              </button>
+            )}
+            <button
+              onClick={() => {
+                if (window.confirm("Delete this card from the deck?")) onDelete(card);
+              }}
+              className="text-xs text-red-600 hover:underline"
+            >
+              Delete card
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
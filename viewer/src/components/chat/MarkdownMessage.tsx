@@ -0,0 +1,117 @@
+"use client";
+
+import { useRef, useState, type ReactNode } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import "katex/dist/katex.min.css";
+
+interface MarkdownMessageProps {
+  content: string;
+  // Links to "#cite=<block ID>" are drawn by this instead, e.g. as a jump-to-page button
+  renderCitation?: (blockId: string) => ReactNode;
+}
+
+const CITATION_HREF_PREFIX = "#cite=";
+
+// Llama models often write \( \) and \[ \]; remark-math only reads dollar delimiters.
+// Fenced code is left alone.
+function normalizeMathDelimiters(markdown: string): string {
+  return markdown
+    .split(/(```[\s\S]*?```)/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part
+            .replace(/\\\[([\s\S]+?)\\\]/g, (_, tex) => `$$${tex}$$`)
+            .replace(/\\\((.+?)\\\)/g, (_, tex) => `$${tex}$`)
+    )
+    .join("");
+}
+
+function CodeBlock({ children }: { children?: ReactNode }) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Error copying code:", error);
+    }
+  };
+
+  return (
+    <div className="relative my-2">
+      <pre
+        ref={preRef}
+        className="p-2 pr-14 rounded bg-gray-900 text-gray-100 text-xs overflow-x-auto [&_code]:p-0 [&_code]:bg-transparent"
+      >
+        {children}
+      </pre>
+      <button
+        onClick={handleCopy}
+        className="absolute top-1 right-1 px-1.5 py-0.5 rounded text-xs bg-gray-700 text-gray-100 hover:bg-gray-600"
+        title="Copy code"
+      >
+        {copied ? "Copied" : "Copy"}
+      </button>
+    </div>
+  );
+}
+
+// Assistant replies as GitHub-flavored Markdown with KaTeX math. Raw HTML in the
+// reply is not rendered, and link URLs pass react-markdown's protocol filter.
+export default function MarkdownMessage({ content, renderCitation }: MarkdownMessageProps) {
+  const components: Components = {
+    p: ({ children }) => <p className="my-1 first:mt-0 last:mb-0">{children}</p>,
+    ul: ({ children }) => <ul className="my-1 pl-5 list-disc">{children}</ul>,
+    ol: ({ children }) => <ol className="my-1 pl-5 list-decimal">{children}</ol>,
+    h1: ({ children }) => <p className="my-1 font-semibold">{children}</p>,
+    h2: ({ children }) => <p className="my-1 font-semibold">{children}</p>,
+    h3: ({ children }) => <p className="my-1 font-semibold">{children}</p>,
+    blockquote: ({ children }) => (
+      <blockquote className="my-1 pl-2 border-l-2 border-gray-400 text-gray-600">{children}</blockquote>
+    ),
+    table: ({ children }) => (
+      <div className="my-2 overflow-x-auto">
+        <table className="text-xs border-collapse [&_td]:border [&_th]:border [&_td]:px-1 [&_th]:px-1">
+          {children}
+        </table>
+      </div>
+    ),
+    pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+    code: ({ className, children }) =>
+      // Fenced code carries a language class (or sits in a <pre>); inline code gets a tint
+      className ? (
+        <code className={className}>{children}</code>
+      ) : (
+        <code className="px-1 rounded bg-black/10 text-[0.9em]">{children}</code>
+      ),
+    a: ({ href, children }) => {
+      if (renderCitation && href?.startsWith(CITATION_HREF_PREFIX)) {
+        return renderCitation(decodeURIComponent(href.slice(CITATION_HREF_PREFIX.length)));
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-700 underline">
+          {children}
+        </a>
+      );
+    },
+  };
+
+  return (
+    <div className="break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex]}
+        components={components}
+      >
+        {normalizeMathDelimiters(content)}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import type { DobbyModel } from "@/utils/fireworks";
+import {
+  BUILT_IN_PERSONAS,
+  DEFAULT_AVATARS,
+  PERSONA_COLORS,
+  PERSONA_TEMPLATES,
+  type Persona,
+  type PersonaColor,
+  isBuiltInPersona,
+} from "@/utils/personas";
+import { DOBBY_VOICES } from "@/utils/speech";
+
+interface PersonaEditorProps {
+  personas: Persona[];
+  onSave: (persona: Persona) => void;
+  onDelete: (persona: Persona) => void;
+  onClose: () => void;
+}
+
+function newPersona(template?: (typeof PERSONA_TEMPLATES)[number]): Persona {
+  return {
+    id: uuidv4(),
+    name: template?.name ?? "",
+    systemPrompt: template?.systemPrompt ?? "",
+    model: template?.model ?? "leashed",
+    voiceId: DOBBY_VOICES[template?.model ?? "leashed"],
+    avatar: DEFAULT_AVATARS[0],
+    color: template?.color ?? "purple",
+    createdAt: Date.now(),
+  };
+}
+
+// Create, edit and remove personas; built-ins can be edited and reset but not removed
+export default function PersonaEditor({ personas, onSave, onDelete, onClose }: PersonaEditorProps) {
+  const [draft, setDraft] = useState<Persona | null>(null);
+
+  const update = (changes: Partial<Persona>) => setDraft((d) => (d ? { ...d, ...changes } : d));
+
+  if (draft) {
+    const builtIn = BUILT_IN_PERSONAS.find((p) => p.id === draft.id);
+    return (
+      <div className="p-2 mb-4 space-y-2 text-sm bg-gray-50 border border-gray-200 rounded">
+        <input
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Name, e.g. Skeptical Reviewer"
+          className="w-full p-1.5 border rounded"
+          aria-label="Persona name"
+        />
+        <textarea
+          value={draft.systemPrompt}
+          onChange={(e) => update({ systemPrompt: e.target.value })}
+          placeholder="How this persona should read and answer"
+          className="w-full p-1.5 border rounded"
+          rows={3}
+          aria-label="System prompt"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-0.5 text-xs">
+            Model
+            <select
+              value={draft.model}
+              onChange={(e) => update({ model: e.target.value as DobbyModel })}
+              className="p-1 border rounded text-sm"
+            >
+              <option value="leashed">Leashed Dobby</option>
+              <option value="unhinged">Unhinged Dobby</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-0.5 text-xs">
+            Color
+            <select
+              value={draft.color}
+              onChange={(e) => update({ color: e.target.value as PersonaColor })}
+              className="p-1 border rounded text-sm"
+            >
+              {Object.keys(PERSONA_COLORS).map((color) => (
+                <option key={color} value={color}>
+                  {color}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-0.5 text-xs">
+            ElevenLabs voice ID
+            <input
+              value={draft.voiceId}
+              onChange={(e) => update({ voiceId: e.target.value.trim() })}
+              list="persona-voices"
+              className="p-1 border rounded text-sm"
+            />
+            <datalist id="persona-voices">
+              <option value={DOBBY_VOICES.leashed}>Charlie (cheerful)</option>
+              <option value={DOBBY_VOICES.unhinged}>Adam (deep)</option>
+            </datalist>
+          </label>
+          <label className="flex flex-col gap-0.5 text-xs">
+            Avatar URL
+            <input
+              value={draft.avatar}
+              onChange={(e) => update({ avatar: e.target.value.trim() })}
+              list="persona-avatars"
+              className="p-1 border rounded text-sm"
+            />
+            <datalist id="persona-avatars">
+              {DEFAULT_AVATARS.map((avatar) => (
+                <option key={avatar} value={avatar} />
+              ))}
+            </datalist>
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          {builtIn && (
+            <button
+              onClick={() => setDraft({ ...builtIn })}
+              className="text-xs text-gray-600 hover:underline"
+            >
+              Reset to default
+            </button>
+          )}
+          <button onClick={() => setDraft(null)} className="ml-auto px-2 py-1 text-xs rounded hover:bg-gray-100">
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              onSave({ ...draft, name: draft.name.trim() });
+              setDraft(null);
+            }}
+            disabled={!draft.name.trim() || !/^[A-Za-z0-9]+$/.test(draft.voiceId)}
+            className="px-2 py-1 text-xs rounded text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 mb-4 space-y-1 text-sm bg-gray-50 border border-gray-200 rounded">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold">Personas</h4>
+        <button onClick={onClose} className="text-xs text-gray-600 hover:text-black">
+          Done
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {personas.map((persona) => (
+          <li key={persona.id} className="flex items-center gap-2">
+            {/* eslint-disable-next-line @next/next/no-img-element -- avatars may be any user-supplied URL */}
+            <img src={persona.avatar} alt="" className="w-6 h-6 rounded-full object-cover" />
+            <span className={`flex-1 truncate ${PERSONA_COLORS[persona.color].text}`}>{persona.name}</span>
+            <button onClick={() => setDraft({ ...persona })} className="text-xs text-gray-600 hover:underline">
+              Edit
+            </button>
+            {!isBuiltInPersona(persona.id) && (
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete the persona "${persona.name}"?`)) onDelete(persona);
+                }}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Delete
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2 pt-1">
+        <button onClick={() => setDraft(newPersona())} className="text-xs text-purple-700 hover:underline">
+          + New persona
+        </button>
+        {PERSONA_TEMPLATES.map((template) => (
+          <button
+            key={template.name}
+            onClick={() => setDraft(newPersona(template))}
+            className="text-xs text-gray-600 hover:underline"
+          >
+            + {template.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Block } from "@/utils/documentModel";
+import { callChat } from "@/utils/api";
+import { describeError } from "@/utils/apiErrors";
+import {
+  type QuizGrade,
+  type QuizQuestion,
+  QUIZ_SIZES,
+  gradeRequestMessages,
+  parseGrade,
+  parseQuiz,
+  quizRequestMessages,
+} from "@/utils/quiz";
+import { stripBlockText } from "@/utils/blockContext";
+
+interface QuizPaneProps {
+  // What the quiz covers, e.g. a section title
+  title: string;
+  // Blocks the questions are written from, in reading order
+  sourceBlocks: Block[];
+  documentBlocks: Block[];
+  onSaveCards: (questions: QuizQuestion[]) => void;
+  onSourceClick: (block: Block) => void;
+  onClose: () => void;
+}
+
+const VERDICT_STYLES: Record<QuizGrade["verdict"], { label: string; className: string }> = {
+  correct: { label: "✅ Correct", className: "bg-green-50 border-green-300" },
+  partial: { label: "🟡 Partly right", className: "bg-amber-50 border-amber-300" },
+  incorrect: { label: "❌ Not quite", className: "bg-red-50 border-red-300" },
+};
+
+// "Quiz me": structured questions on a section, answered inline and graded by Dobby
+export default function QuizPane({
+  title,
+  sourceBlocks,
+  documentBlocks,
+  onSaveCards,
+  onSourceClick,
+  onClose,
+}: QuizPaneProps) {
+  const [count, setCount] = useState(QUIZ_SIZES[1]);
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [grades, setGrades] = useState<(QuizGrade | null)[]>([]);
+  const [gradingIndex, setGradingIndex] = useState<number | null>(null);
+  const [saved, setSaved] = useState<Set<number>>(new Set());
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const blocksById = useMemo(
+    () => new Map(documentBlocks.map((b) => [b.id, b])),
+    [documentBlocks]
+  );
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setGenerating(true);
+    setError(null);
+
+    try {
+      const raw = await callChat(quizRequestMessages(sourceBlocks, count), "leashed", controller.signal);
+      const quiz = parseQuiz(raw, new Set(sourceBlocks.map((b) => b.id))).slice(0, count);
+      setQuestions(quiz);
+      setAnswers(quiz.map(() => ""));
+      setGrades(quiz.map(() => null));
+      setSaved(new Set());
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error generating quiz:", err);
+      setError(`Couldn't write a quiz: ${describeError(err)}`);
+    } finally {
+      abortControllerRef.current = null;
+      setGenerating(false);
+    }
+  };
+
+  const handleCheck = async (index: number) => {
+    if (!questions || !answers[index].trim() || gradingIndex !== null) return;
+    setGradingIndex(index);
+    try {
+      const raw = await callChat(gradeRequestMessages(questions[index], answers[index].trim()), "leashed");
+      const grade = parseGrade(raw);
+      setGrades((prev) => prev.map((g, i) => (i === index ? grade : g)));
+    } catch (err) {
+      console.error("Error grading answer:", err);
+      setError(`Couldn't grade that answer: ${describeError(err)}`);
+    } finally {
+      setGradingIndex(null);
+    }
+  };
+
+  const handleSave = (indexes: number[]) => {
+    if (!questions) return;
+    const fresh = indexes.filter((i) => !saved.has(i));
+    if (fresh.length === 0) return;
+    onSaveCards(fresh.map((i) => questions[i]));
+    setSaved((prev) => new Set([...prev, ...fresh]));
+  };
+
+  return (
+    <div
+      style={{ width: "500px" }}
+      className="bg-white text-gray-800 border-l border-gray-300 flex flex-col h-full"
+      role="complementary"
+      aria-label="Quiz"
+    >
+      {/* Header */}
+      <div className="p-3 flex items-center justify-between bg-gray-200 border-b border-gray-300">
+        <h2 className="font-semibold truncate" title={title}>Quiz: {title}</h2>
+        <button onClick={onClose} className="text-sm text-gray-700 hover:text-black">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 p-3 overflow-y-auto space-y-3 min-h-0 text-sm">
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1">
+            Questions
+            <select
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              disabled={generating}
+              className="p-1 border rounded"
+            >
+              {QUIZ_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="px-3 py-1 rounded text-white bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400"
+          >
+            {generating ? "Writing questions..." : questions ? "New quiz" : "Quiz me 📝"}
+          </button>
+          {questions && (
+            <button
+              onClick={() => handleSave(questions.map((_, i) => i))}
+              disabled={saved.size === questions.length}
+              className="ml-auto text-xs text-gray-600 hover:text-black disabled:opacity-50"
+            >
+              Save all to deck
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-red-600">{error}</p>}
+
+        {questions?.map((question, i) => {
+          const grade = grades[i];
+          const sources = question.sourceBlockIds
+            .map((id) => blocksById.get(id))
+            .filter((b): b is Block => b !== undefined);
+          return (
+            <div
+              key={i}
+              className={`p-2 rounded border space-y-2 ${grade ? VERDICT_STYLES[grade.verdict].className : "border-gray-200"}`}
+            >
+              <p className="font-medium">
+                {i + 1}. {question.question}
+              </p>
+              <textarea
+                value={answers[i]}
+                onChange={(e) => setAnswers((prev) => prev.map((a, j) => (j === i ? e.target.value : a)))}
+                placeholder="Your answer..."
+                className="w-full p-1.5 border rounded"
+                rows={2}
+                disabled={gradingIndex === i}
+                aria-label={`Answer to question ${i + 1}`}
+              />
+              <div className="flex items-center gap-3 text-xs">
+                <button
+                  onClick={() => handleCheck(i)}
+                  disabled={!answers[i].trim() || gradingIndex !== null}
+                  className="px-2 py-1 rounded text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+                >
+                  {gradingIndex === i ? "Grading..." : "Check"}
+                </button>
+                <button
+                  onClick={() => handleSave([i])}
+                  disabled={saved.has(i)}
+                  className="text-gray-600 hover:text-black disabled:opacity-50"
+                >
+                  {saved.has(i) ? "Saved to deck" : "Save to deck"}
+                </button>
+                {sources.map((block) => (
+                  <button
+                    key={block.id}
+                    onClick={() => onSourceClick(block)}
+                    className="text-blue-700 hover:underline"
+                    title={stripBlockText(block)}
+                  >
+                    p.{(block.pageIndex ?? 0) + 1}
+                  </button>
+                ))}
+              </div>
+              {grade && (
+                <div className="space-y-1">
+                  <p>
+                    <strong>{VERDICT_STYLES[grade.verdict].label}</strong> {grade.feedback}
+                  </p>
+                  <p className="text-gray-600">
+                    <strong>Expected:</strong> {question.answer}
+                  </p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import type { Message } from "@/utils/fireworks";
+
+// A rolling summary in the chat history: the turns above it reach Dobby only through it
+export default function SummaryDivider({ summary }: { summary: Message }) {
+  return (
+    <details className="text-xs text-gray-500 border-y border-dashed border-gray-300 py-1">
+      <summary className="cursor-pointer">
+        Earlier turns condensed. Dobby now sees them as this summary
+      </summary>
+      <p className="mt-1 whitespace-pre-wrap">{summary.content}</p>
+    </details>
+  );
+}
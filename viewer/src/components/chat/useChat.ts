@@ -0,0 +1,205 @@
+import { useEffect, useRef, useState } from "react";
+import type { DobbyModel, Message } from "@/utils/fireworks";
+import { callChat, streamChat } from "@/utils/api";
+import { describeError } from "@/utils/apiErrors";
+import { type Persona, applyPersona } from "@/utils/personas";
+import {
+  SUMMARY_MODEL,
+  insertSummary,
+  isRollingSummary,
+  planCondense,
+  promptMessages,
+  rollingSummary,
+  summaryRequestMessages,
+  trimToBudget,
+} from "@/utils/contextBudget";
+
+// The chat turns to persist: everything but the context system message
+export const chatTurns = (messages: Message[]) => messages.filter(m => m.role !== "system" || isRollingSummary(m));
+
+export interface ChatError {
+  message: string;
+  // The unanswered question, when the failure can be retried
+  failedMessage?: Message;
+}
+
+interface UseChatOptions {
+  // Where the chat is saved, see onConversationChange
+  conversationKey: string;
+  // Saved chat turns, with any rolling summaries but no context message
+  conversation: Message[];
+  onConversationChange: (key: string, messages: Message[]) => void;
+  // The system message the chat starts from; only read on mount
+  initialContext: () => string;
+}
+
+interface SendOptions {
+  // Context for this request in place of the chat's own, e.g. freshly retrieved passages
+  system?: Message;
+  // A failed question being asked again; it is moved to the end of the chat
+  replacing?: Message;
+}
+
+/**
+ * State and streaming shared by the chat panes: the messages behind a leading
+ * context message, the reply streaming in, rolling summaries that keep requests
+ * inside the model's context, and saving. Saving skips chats that never had a
+ * turn, and a reply cut off by unmounting is saved with whatever text arrived.
+ */
+export function useChat({ conversationKey, conversation, onConversationChange, initialContext }: UseChatOptions) {
+  const [messages, setMessages] = useState<Message[]>(() => [
+    { role: "system", content: initialContext() },
+    ...conversation,
+  ]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingPersona, setLoadingPersona] = useState<Persona | null>(null);
+  // Folding older turns into the rolling summary before a reply
+  const [condensing, setCondensing] = useState(false);
+  // The last failure, shown above the input; a failed send can be retried from it
+  const [error, setError] = useState<ChatError | null>(null);
+  // The assistant reply currently streaming in, shown after the committed messages
+  const [streamingReply, setStreamingReply] = useState<Message | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Latest messages, for saving a reply that finishes after the pane is gone
+  const messagesRef = useRef(messages);
+  const unmountedRef = useRef(false);
+  // A chat that never had a turn is not saved, so opening one doesn't touch storage
+  const hasTurnsRef = useRef(conversation.length > 0);
+
+  // Report the chat turns upward whenever messages change, so they get persisted
+  useEffect(() => {
+    messagesRef.current = messages;
+    const turns = chatTurns(messages);
+    if (turns.length === 0 && !hasTurnsRef.current) return;
+    hasTurnsRef.current = true;
+    onConversationChange(conversationKey, turns);
+  }, [messages, conversationKey, onConversationChange]);
+
+  // Abort any in-flight stream on unmount; streamReply saves what arrived
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  /**
+   * Stream a reply from the given model, growing the assistant bubble as tokens arrive.
+   * Returns the committed reply, or null if the user stopped the stream.
+   * A stopped reply keeps whatever text had arrived.
+   */
+  const streamReply = async (
+    history: Message[],
+    replyModel: DobbyModel,
+    tags: Pick<Message, "personaId" | "moderator"> = {}
+  ): Promise<Message | null> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let content = "";
+    const partial = (): Message => ({ role: "assistant", content, modelUsed: replyModel, ...tags });
+    setStreamingReply(partial());
+
+    try {
+      for await (const delta of streamChat(history, replyModel, controller.signal)) {
+        content += delta;
+        setStreamingReply(partial());
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingReply(null);
+    }
+
+    if (controller.signal.aborted && !content) return null;
+
+    const reply: Message = { ...partial(), content: content || "(No response)" };
+    if (unmountedRef.current) {
+      // No state to update any more; save the partial reply directly
+      onConversationChange(conversationKey, chatTurns([...messagesRef.current, reply]));
+      return null;
+    }
+    setMessages(prev => [...prev, reply]);
+    return controller.signal.aborted ? null : reply;
+  };
+
+  // Stream a reply in a persona's voice, recording which persona gave it
+  const streamPersonaReply = (history: Message[], replyPersona: Persona) =>
+    streamReply(applyPersona(history, replyPersona), replyPersona.model, { personaId: replyPersona.id });
+
+  /**
+   * Fit a chat history into the model's context before sending it. Over budget,
+   * the older turns are folded into a rolling summary that is kept in the chat;
+   * if that fails the oldest turns are simply left out of the request.
+   */
+  const fitToBudget = async (history: Message[]): Promise<Message[]> => {
+    const plan = planCondense(history);
+    if (plan) {
+      setCondensing(true);
+      try {
+        const summary = rollingSummary(await callChat(summaryRequestMessages(plan), SUMMARY_MODEL));
+        history = insertSummary(history, summary, plan.insertAt);
+        setMessages(prev => insertSummary(prev, summary, plan.insertAt));
+      } catch (error) {
+        console.error("Error condensing earlier turns:", error);
+      } finally {
+        setCondensing(false);
+      }
+    }
+    return trimToBudget(promptMessages(history));
+  };
+
+  const stop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Ask `question` and stream the persona's answer. A failed question stays in
+   * place, marked as unanswered, so it can be retried by sending it again with
+   * `replacing`.
+   */
+  const send = async (question: string, persona: Persona, { system, replacing }: SendOptions = {}) => {
+    const content = question.trim();
+    if (!content || isLoading) return;
+
+    const userMsg: Message = { role: "user", content };
+    const [context, ...turns] = messages.filter(m => m !== replacing);
+
+    setError(null);
+    setIsLoading(true);
+    setLoadingPersona(persona);
+    setMessages(prev => [...prev.filter(m => m !== replacing), userMsg]);
+
+    try {
+      await streamPersonaReply(await fitToBudget([system ?? context, ...turns, userMsg]), persona);
+    } catch (error) {
+      console.error("Error getting AI response:", error);
+      const failedMessage: Message = { ...userMsg, failed: true };
+      setMessages(prev => prev.map(m => (m === userMsg ? failedMessage : m)));
+      setError({ message: `Dobby couldn't answer: ${describeError(error)}`, failedMessage });
+    } finally {
+      setIsLoading(false);
+      setLoadingPersona(null);
+    }
+  };
+
+  return {
+    messages,
+    setMessages,
+    isLoading,
+    setIsLoading,
+    loadingPersona,
+    setLoadingPersona,
+    condensing,
+    error,
+    setError,
+    streamingReply,
+    streamReply,
+    streamPersonaReply,
+    send,
+    stop,
+  };
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useMemo } from "react";
+import "katex/dist/katex.min.css";
+import { renderBlockHtml } from "@/utils/sanitizeHtml";
+
+interface BlockHtmlProps {
+  html: string;
+  className?: string;
+}
+
+// A block's Marker HTML, sanitized, with its LaTeX typeset
+export default function BlockHtml({ html, className }: BlockHtmlProps) {
+  const rendered = useMemo(() => renderBlockHtml(html), [html]);
+  return <div className={className} dangerouslySetInnerHTML={{ __html: rendered }} />;
+}
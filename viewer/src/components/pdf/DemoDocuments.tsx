@@ -0,0 +1,47 @@
+"use client";
+
+import type { DemoDocument } from "@/utils/demo";
+
+interface DemoDocumentsProps {
+  documents: DemoDocument[];
+  disabled: boolean;
+  onOpen: (doc: DemoDocument) => void;
+}
+
+// Start-screen list of recorded documents in demo mode; they open from the
+// recorded Marker response, and Dobby's replies are scripted
+export default function DemoDocuments({ documents, disabled, onOpen }: DemoDocumentsProps) {
+  return (
+    <section className="w-full max-w-xl" aria-label="Demo documents">
+      <h2 className="mb-1 text-sm font-semibold text-gray-600">Demo documents</h2>
+      <p className="mb-2 text-xs text-gray-500">
+        Demo mode: documents are replayed from recorded Marker responses, Dobby&apos;s replies are scripted,
+        and no API keys or network are used.
+      </p>
+      {documents.length === 0 ? (
+        <p className="p-2 border border-dashed border-gray-300 rounded text-xs text-gray-500">
+          No recorded documents found. Uploaded PDFs with a recording open as recorded; others use the
+          basic text layout.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded bg-white text-sm">
+          {documents.map((doc) => (
+            <li key={doc.docHash}>
+              <button
+                onClick={() => onOpen(doc)}
+                disabled={disabled}
+                className="w-full p-2 text-left hover:text-purple-700 disabled:opacity-50"
+                title={`Open ${doc.title}`}
+              >
+                <span className="block truncate font-medium">{doc.title}</span>
+                <span className="text-xs text-gray-500">
+                  {doc.pageCount} page{doc.pageCount === 1 ? "" : "s"} · recorded
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { LibraryEntry } from "@/utils/documentLibrary";
+
+interface DocumentLibraryProps {
+  entries: LibraryEntry[];
+  onOpen: (entry: LibraryEntry) => void;
+  onRemove: (entry: LibraryEntry) => void;
+}
+
+// Recently opened documents on the start screen; reopening needs no upload or backend call
+export default function DocumentLibrary({ entries, onOpen, onRemove }: DocumentLibraryProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <section className="w-full max-w-xl" aria-label="Recent documents">
+      <h2 className="mb-2 text-sm font-semibold text-gray-600">Recent documents</h2>
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded bg-white text-sm">
+        {entries.map((entry) => (
+          <li key={entry.docHash} className="flex items-center gap-3 p-2">
+            <button
+              onClick={() => onOpen(entry)}
+              className="flex-1 min-w-0 text-left hover:text-purple-700"
+              title={`Open ${entry.fileName}`}
+            >
+              <span className="block truncate font-medium">{entry.fileName}</span>
+              <span className="text-xs text-gray-500">
+                {entry.pageCount} page{entry.pageCount === 1 ? "" : "s"}
+                {" · "}opened {new Date(entry.lastOpenedAt).toLocaleString()}
+                {entry.chattedBlocks > 0 && ` · 💬 ${entry.chattedBlocks} block${entry.chattedBlocks === 1 ? "" : "s"}`}
+                {entry.ingestion === "pdfjs" && " · basic text layout"}
+              </span>
+            </button>
+            <button
+              onClick={() => onRemove(entry)}
+              className="shrink-0 text-xs text-gray-500 hover:text-red-600"
+              title="Remove from the library (notes and chats are kept)"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useMemo } from "react";
+import type { Conversations } from "@/utils/conversationStore";
+import { currentOutlineEntry, type OutlineEntry } from "@/utils/outline";
+import { type ReadingProgress, readFraction } from "@/utils/readingProgress";
+
+interface DocumentOutlineProps {
+  entries: OutlineEntry[];
+  currentPage: number;
+  conversations: Conversations;
+  progress: ReadingProgress;
+  onSelect: (entry: OutlineEntry) => void;
+}
+
+// Sidebar tab listing the document's headings, with a badge on sections that have
+// chats and a bar showing how much of each section has been read
+export default function DocumentOutline({
+  entries,
+  currentPage,
+  conversations,
+  progress,
+  onSelect,
+}: DocumentOutlineProps) {
+  // Number of conversations touching each section; multi-block chats count once per section
+  const chatCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    const keys = Object.keys(conversations);
+    for (const entry of entries) {
+      const ids = new Set(entry.blockIds);
+      const count = keys.filter((key) => key.split("+").some((id) => ids.has(id))).length;
+      if (count > 0) counts.set(entry.id, count);
+    }
+    return counts;
+  }, [entries, conversations]);
+
+  const current = currentOutlineEntry(entries, currentPage);
+
+  if (entries.length === 0) {
+    return <div className="p-4 text-gray-500">No headings found in this document</div>;
+  }
+
+  return (
+    <nav className="p-2 text-sm overflow-y-auto h-full" aria-label="Document outline">
+      <ul>
+        {entries.map((entry) => {
+          const isCurrent = entry.id === current?.id;
+          const chatCount = chatCounts.get(entry.id);
+          const read = Math.round(readFraction(entry.blockIds, progress) * 100);
+          return (
+            <li key={entry.id}>
+              <button
+                onClick={() => onSelect(entry)}
+                style={{ paddingLeft: `${0.5 + entry.depth * 0.75}rem` }}
+                className={`w-full flex items-center justify-between gap-2 py-1 pr-2 rounded text-left ${
+                  isCurrent ? "bg-purple-100 text-purple-900 font-medium" : "hover:bg-gray-100"
+                }`}
+                aria-current={isCurrent ? "location" : undefined}
+              >
+                <span className="truncate" title={entry.title}>{entry.title}</span>
+                <span className="flex items-center gap-1 shrink-0 text-xs text-gray-500">
+                  {chatCount && (
+                    <span
+                      className="px-1.5 rounded-full bg-purple-600 text-white"
+                      title={`${chatCount} Dobby conversation${chatCount > 1 ? "s" : ""}`}
+                    >
+                      💬 {chatCount}
+                    </span>
+                  )}
+                  {entry.pageIndex + 1}
+                </span>
+              </button>
+              {entry.blockIds.length > 0 && (
+                <div
+                  style={{ marginLeft: `${0.5 + entry.depth * 0.75}rem` }}
+                  className="h-1 mr-2 mb-1 rounded bg-gray-200 overflow-hidden"
+                  role="progressbar"
+                  aria-label={`${entry.title}: read`}
+                  aria-valuenow={read}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  title={`${read}% read`}
+                >
+                  <div className="h-full bg-green-500" style={{ width: `${read}%` }} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
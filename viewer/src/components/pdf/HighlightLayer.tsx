@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  RenderHighlightContentProps,
+  RenderHighlightTargetProps,
+  RenderHighlightsProps,
+} from "@react-pdf-viewer/highlight";
+import type { Highlight } from "@/utils/highlightStore";
+
+// Floating toolbar shown next to a fresh text selection
+export function HighlightTarget({
+  selectionRegion,
+  toggle,
+  onHighlight,
+  onAskDobby,
+}: RenderHighlightTargetProps & {
+  onHighlight: () => void;
+  onAskDobby: () => void;
+}) {
+  return (
+    <div
+      className="flex gap-1 p-1 bg-white border border-gray-300 rounded shadow text-xs"
+      style={{
+        position: "absolute",
+        left: `${selectionRegion.left}%`,
+        top: `${selectionRegion.top + selectionRegion.height}%`,
+        transform: "translate(0, 8px)",
+        zIndex: 3,
+      }}
+    >
+      <button onClick={onHighlight} className="px-2 py-1 rounded hover:bg-yellow-100">
+        Highlight
+      </button>
+      <button onClick={toggle} className="px-2 py-1 rounded hover:bg-yellow-100">
+        Add note
+      </button>
+      <button onClick={onAskDobby} className="px-2 py-1 rounded hover:bg-purple-100">
+        Ask Dobby
+      </button>
+    </div>
+  );
+}
+
+// Note editor opened from the selection toolbar's "Add note"
+export function HighlightNoteForm({
+  selectionRegion,
+  cancel,
+  onSave,
+}: RenderHighlightContentProps & { onSave: (note: string) => void }) {
+  const [note, setNote] = useState("");
+
+  return (
+    <div
+      className="w-64 p-2 bg-white border border-gray-300 rounded shadow text-sm"
+      style={{
+        position: "absolute",
+        left: `${selectionRegion.left}%`,
+        top: `${selectionRegion.top + selectionRegion.height}%`,
+        transform: "translate(0, 8px)",
+        zIndex: 3,
+      }}
+    >
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Write a margin note..."
+        className="w-full p-1 border rounded text-sm"
+        rows={3}
+        autoFocus
+      />
+      <div className="flex justify-end gap-2 mt-1">
+        <button onClick={cancel} className="px-2 py-1 text-xs rounded hover:bg-gray-100">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(note.trim())}
+          className="px-2 py-1 text-xs rounded text-white bg-yellow-500 hover:bg-yellow-600"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Saved highlights on one page, with a margin marker for each highlight that has a note
+export function HighlightMarks({
+  pageIndex,
+  rotation,
+  getCssProperties,
+  highlights,
+  activeHighlightId,
+  onSelect,
+}: RenderHighlightsProps & {
+  highlights: Highlight[];
+  activeHighlightId: string | null;
+  onSelect: (highlight: Highlight) => void;
+}) {
+  return (
+    <div>
+      {highlights.map((highlight) => {
+        const areas = highlight.areas.filter((area) => area.pageIndex === pageIndex);
+        if (areas.length === 0) return null;
+        const isActive = highlight.id === activeHighlightId;
+
+        return (
+          <div key={highlight.id}>
+            {areas.map((area, i) => (
+              <div
+                key={i}
+                onClick={() => onSelect(highlight)}
+                title={highlight.note || highlight.text}
+                style={{
+                  ...getCssProperties(area, rotation),
+                  background: isActive ? "rgba(250, 204, 21, 0.55)" : "rgba(250, 204, 21, 0.35)",
+                  cursor: "pointer",
+                  zIndex: 3,
+                }}
+              />
+            ))}
+            {highlight.note && (
+              <button
+                onClick={() => onSelect(highlight)}
+                title={highlight.note}
+                aria-label={`Note: ${highlight.note}`}
+                className="text-sm leading-none"
+                style={{
+                  position: "absolute",
+                  top: `${areas[0].top}%`,
+                  right: "4px",
+                  zIndex: 3,
+                }}
+              >
+                📝
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
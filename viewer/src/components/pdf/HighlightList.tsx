@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import type { Highlight } from "@/utils/highlightStore";
+
+interface HighlightListProps {
+  highlights: Highlight[];
+  activeHighlightId: string | null;
+  onSelect: (highlight: Highlight) => void;
+  onAskDobby: (highlight: Highlight) => void;
+  onNoteChange: (highlight: Highlight, note: string) => void;
+  onDelete: (highlight: Highlight) => void;
+}
+
+// Sidebar tab listing the document's highlights and margin notes in page order
+export default function HighlightList({
+  highlights,
+  activeHighlightId,
+  onSelect,
+  onAskDobby,
+  onNoteChange,
+  onDelete,
+}: HighlightListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  if (highlights.length === 0) {
+    return (
+      <div className="p-4 text-gray-500">
+        Turn on highlight mode and select text on the page to highlight it
+      </div>
+    );
+  }
+
+  const sorted = [...highlights].sort(
+    (a, b) =>
+      (a.areas[0]?.pageIndex ?? 0) - (b.areas[0]?.pageIndex ?? 0) ||
+      (a.areas[0]?.top ?? 0) - (b.areas[0]?.top ?? 0)
+  );
+
+  return (
+    <ul className="p-2 space-y-2 text-sm overflow-y-auto h-full">
+      {sorted.map((highlight) => {
+        const isEditing = editingId === highlight.id;
+        return (
+          <li
+            key={highlight.id}
+            className={`p-2 rounded border ${
+              highlight.id === activeHighlightId ? "border-yellow-500 bg-yellow-50" : "border-gray-200"
+            }`}
+          >
+            <button onClick={() => onSelect(highlight)} className="w-full text-left">
+              <span className="text-xs text-gray-500">
+                Page {(highlight.areas[0]?.pageIndex ?? 0) + 1}
+              </span>
+              <p className="line-clamp-3 border-l-4 border-yellow-400 pl-2">{highlight.text}</p>
+            </button>
+
+            {isEditing ? (
+              <div className="mt-1">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="w-full p-1 border rounded text-sm"
+                  rows={3}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setEditingId(null)} className="text-xs hover:underline">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => {
+                      onNoteChange(highlight, draft.trim());
+                      setEditingId(null);
+                    }}
+                    className="text-xs text-yellow-700 hover:underline"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              highlight.note && <p className="mt-1 text-gray-700 italic">📝 {highlight.note}</p>
+            )}
+
+            {!isEditing && (
+              <div className="flex gap-3 mt-1 text-xs">
+                <button onClick={() => onAskDobby(highlight)} className="text-purple-700 hover:underline">
+                  Ask Dobby
+                </button>
+                <button
+                  onClick={() => {
+                    setDraft(highlight.note);
+                    setEditingId(highlight.id);
+                  }}
+                  className="text-gray-600 hover:underline"
+                >
+                  {highlight.note ? "Edit note" : "Add note"}
+                </button>
+                <button onClick={() => onDelete(highlight)} className="text-red-600 hover:underline">
+                  Delete
+                </button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,26 +1,119 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useMemo, useEffect } from "react";
 import { Worker, Viewer } from "@react-pdf-viewer/core";
 import { defaultLayoutPlugin } from "@react-pdf-viewer/default-layout";
+import { highlightPlugin } from "@react-pdf-viewer/highlight";
+import { v4 as uuidv4 } from "uuid";
 import "@react-pdf-viewer/core/lib/styles/index.css";
 import "@react-pdf-viewer/default-layout/lib/styles/index.css";
+import "@react-pdf-viewer/highlight/lib/styles/index.css";
 
 import ChatPane from "../chat/ChatPane"; 
+import DocumentOutline from "./DocumentOutline";
+import HighlightList from "./HighlightList";
+import SearchPanel from "./SearchPanel";
+import ReadAloudBar from "./ReadAloudBar";
+import DocumentLibrary from "./DocumentLibrary";
+import DemoDocuments from "./DemoDocuments";
+import BlockHtml from "./BlockHtml";
+import TranslationBar from "./TranslationBar";
+import { HighlightMarks, HighlightNoteForm, HighlightTarget } from "./HighlightLayer";
+import DocumentChatPane from "../chat/DocumentChatPane";
+import QuizPane from "../chat/QuizPane";
+import FlashcardReview from "../chat/FlashcardReview";
+import ErrorBanner from "../chat/ErrorBanner";
+import type { Message } from "@/utils/fireworks";
+import { blockKind, inReadingOrder, isChatBlock, isContentBlock, selectionKey } from "@/utils/blockContext";
+import { buildOutline, currentOutlineEntry } from "@/utils/outline";
+import { type SearchOptions, searchBlocks } from "@/utils/blockSearch";
+import { downloadFile, exportMarkdown, exportSession, parseSession } from "@/utils/notebook";
+import {
+  type Highlight,
+  deleteHighlight,
+  highlightBlockId,
+  loadHighlights,
+  saveHighlight,
+  toHighlightBlock,
+  withHighlightBlocks,
+} from "@/utils/highlightStore";
+import { hashFile } from "@/utils/db";
+import { type DemoStatus, callChat, fetchDemoPdf, fetchRecording, getDemoStatus, processPdf } from "@/utils/api";
+import type { DemoDocument } from "@/utils/demo";
+import { describeError } from "@/utils/apiErrors";
+import {
+  type Block,
+  type DocumentModel,
+  type IngestionSource,
+  buildDocumentModel,
+} from "@/utils/documentModel";
+import { PDF_WORKER_URL, extractTextDocument } from "@/utils/pdfTextBlocks";
+import {
+  type Glossary,
+  TRANSLATION_LANGUAGES,
+  isTranslatable,
+  loadTranslations,
+  parseTranslation,
+  saveTranslations,
+  translationBatches,
+  translationRequestMessages,
+} from "@/utils/translation";
+import {
+  type LibraryEntry,
+  listDocuments,
+  loadDocument,
+  loadDocumentFile,
+  markDocumentOpened,
+  readAsDataUrl,
+  removeDocument,
+  saveDocument,
+} from "@/utils/documentLibrary";
+import {
+  type BlockProgress,
+  type ProgressChange,
+  type ReadingProgress,
+  HEATMAP_TINTS,
+  applyProgress,
+  engagementLevel,
+  formatDwell,
+  loadProgress,
+  nextUnreadSection,
+  readFraction,
+  saveProgress,
+} from "@/utils/readingProgress";
+import type { QuizQuestion } from "@/utils/quiz";
+import {
+  type Flashcard,
+  type ReviewRating,
+  deleteFlashcard,
+  exportAnkiCsv,
+  isDue,
+  loadDeck,
+  newFlashcard,
+  saveFlashcards,
+  scheduleReview,
+} from "@/utils/flashcards";
+import {
+  BUILT_IN_PERSONAS,
+  type Persona,
+  deletePersona,
+  loadPersonas,
+  savePersona,
+} from "@/utils/personas";
+import {
+  type Conversations,
+  DOCUMENT_CHAT_KEY,
+  loadConversations,
+  saveConversation,
+  deleteConversation,
+  deleteDocumentConversations,
+} from "@/utils/conversationStore";
 
-export interface Block {
-  id: string;
-  type: string;
-  block_type: string;
-  html: string;
-  polygon: number[][];
-  page_number?: number;
-  pageIndex?: number;
-  children?: Block[];
-}
+// How often time on the current page is added to its blocks' reading progress
+const DWELL_FLUSH_MS = 5000;
 
 // A minimal Block Info component (for the built-in sidebar tab, if you still want it)
-function BlockInformation({ block }: { block: Block | null }) {
+function BlockInformation({ block, progress }: { block: Block | null; progress?: BlockProgress }) {
   if (!block) {
     return (
       <div className="p-4 text-gray-500">
@@ -42,12 +135,20 @@ function BlockInformation({ block }: { block: Block | null }) {
           <p>
             <span className="font-medium">Content:</span>
           </p>
-          <div
-            className="mt-1 p-2 bg-gray-50 rounded text-sm"
-            dangerouslySetInnerHTML={{ __html: block.html }}
-          />
+          <BlockHtml className="mt-1 p-2 bg-gray-50 rounded text-sm" html={block.html} />
         </div>
       </div>
+      <div>
+        <h3 className="font-semibold mb-2">Reading</h3>
+        <p className="text-sm">
+          {progress
+            ? [
+                progress.discussed ? "Discussed" : progress.opened ? "Opened in chat" : progress.viewed ? "Viewed" : "Not read yet",
+                `${formatDwell(progress.dwellMs)} on screen`,
+              ].join(" · ")
+            : "Not read yet"}
+        </p>
+      </div>
     </div>
   );
 }
@@ -55,101 +156,941 @@ function BlockInformation({ block }: { block: Block | null }) {
 export default function PDFViewer() {
   const [pdfFile, setPdfFile] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Why the last upload or library open failed, shown on the start screen
+  const [uploadError, setUploadError] = useState<{ message: string; retry?: () => void } | null>(null);
+  // Recently opened documents, shown on the start screen
+  const [library, setLibrary] = useState<LibraryEntry[]>([]);
+  // Set when the server runs in demo mode: recorded documents replace the PDF backend
+  const [demo, setDemo] = useState<DemoStatus | null>(null);
+
+  // Content hash of the open PDF; conversations are persisted under it
+  const [docHash, setDocHash] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [ingestion, setIngestion] = useState<IngestionSource>("marker");
+  const [conversations, setConversations] = useState<Conversations>({});
 
   // Flattened blocks array
   const [blocks, setBlocks] = useState<Block[]>([]);
-  const [selectedBlock, setSelectedBlock] = useState<Block | null>(null);
+  // Document-level images returned by the backend, keyed by Marker image name
+  const [images, setImages] = useState<{ [name: string]: string }>({});
+  // Blocks selected for chat; shift-click builds multi-block selections.
+  // The most recently clicked block is the one shown in the sidebar.
+  const [selectedBlocks, setSelectedBlocks] = useState<Block[]>([]);
+  const selectedBlock = selectedBlocks[selectedBlocks.length - 1] ?? null;
+  const [currentPage, setCurrentPage] = useState(0);
+  // Keyboard reading cursor: the text block j/k move between and Enter opens
+  const [activeBlockId, setActiveBlockId] = useState<string | null>(null);
+
+  // Whole-document Q&A replaces the block chat in the right pane while open
+  const [documentChatOpen, setDocumentChatOpen] = useState(false);
+
+  // Quiz on a section, or review of the flashcard deck; shown in the right pane over the block chat.
+  // Each quiz gets its own id so asking again starts a fresh one
+  const [studyPane, setStudyPane] = useState<
+    { mode: "quiz"; id: string; title: string; blocks: Block[] } | { mode: "review" } | null
+  >(null);
+  const [deck, setDeck] = useState<Flashcard[]>([]);
+
+  // Text-range highlights; in highlight mode the block boxes let text selection through
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [activeHighlightId, setActiveHighlightId] = useState<string | null>(null);
+  const [highlightMode, setHighlightMode] = useState(false);
+
+  // Search over the parsed blocks; hits are outlined in the overlay
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ matchCase: false, wholeWord: false });
+  const [currentHit, setCurrentHit] = useState(0);
+
+  // Read-aloud queue for a page or section, and the block being narrated
+  const [readAloud, setReadAloud] = useState<{ label: string; blocks: Block[] } | null>(null);
+  const [readingBlock, setReadingBlock] = useState<Block | null>(null);
+
+  // Per-block reading progress; the ref lets timers build on the latest records
+  // and tells them apart from a document that has since been closed
+  const [progress, setProgress] = useState<ReadingProgress>({});
+  const progressRef = useRef<{ docHash: string | null; records: ReadingProgress }>({
+    docHash: null,
+    records: {},
+  });
+  const [heatmap, setHeatmap] = useState(false);
+
+  // Translate-in-place: the target language (null when off) and the cached
+  // translations and glossary for it, tagged with the document they belong to
+  const [translationLanguage, setTranslationLanguage] = useState<string | null>(null);
+  const [translations, setTranslations] = useState<{
+    docHash: string;
+    language: string;
+    texts: { [blockId: string]: string };
+    glossary: Glossary;
+  } | null>(null);
+  const [translatingIds, setTranslatingIds] = useState<Set<string>>(new Set());
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+
+  // Personas are shared by every document; saved edits load in over the built-ins
+  const [personas, setPersonas] = useState<Persona[]>(BUILT_IN_PERSONAS);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  const highlightsTabIndexRef = useRef(0);
+
+  const outline = useMemo(() => buildOutline(blocks), [blocks]);
+  // Blocks in reading order with highlights woven in, for chat context and export
+  const readingBlocks = useMemo(() => withHighlightBlocks(blocks, highlights), [blocks, highlights]);
+  const searchHits = useMemo(
+    () => searchBlocks(blocks, searchQuery, searchOptions),
+    [blocks, searchQuery, searchOptions]
+  );
+  // Text blocks in reading order, for keyboard navigation
+  const navigableBlocks = useMemo(() => blocks.filter((b) => blockKind(b) === "text"), [blocks]);
+  const searchHitIds = useMemo(() => new Set(searchHits.map((hit) => hit.block.id)), [searchHits]);
+  // Blocks that count towards reading progress, the same ones the outline's sections hold
+  const progressBlocks = useMemo(() => blocks.filter(isContentBlock), [blocks]);
+  const progressBlockIds = useMemo(() => new Set(progressBlocks.map((b) => b.id)), [progressBlocks]);
+  const documentProgress = useMemo(
+    () => readFraction(progressBlocks.map((b) => b.id), progress),
+    [progressBlocks, progress]
+  );
 
   const defaultLayoutPluginInstance = defaultLayoutPlugin({
-    sidebarTabs: (defaultTabs) => [
-      ...defaultTabs,
-      {
-        content: <BlockInformation block={selectedBlock} />,
-        icon: (
-          <svg viewBox="0 0 24 24" width="24px" height="24px">
-            <path
-              d="M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zM6 20V4h7v5h5v11H6z"
-              fill="currentColor"
+    sidebarTabs: (defaultTabs) => {
+      highlightsTabIndexRef.current = defaultTabs.length + 1;
+      return [
+        ...defaultTabs,
+        {
+          content: (
+            <DocumentOutline
+              entries={outline}
+              currentPage={currentPage}
+              conversations={conversations}
+              progress={progress}
+              onSelect={(entry) => jumpToPage(entry.pageIndex)}
+            />
+          ),
+          icon: (
+            <svg viewBox="0 0 24 24" width="24px" height="24px">
+              <path
+                d="M3 5h2v2H3V5zm4 0h14v2H7V5zm-4 6h2v2H3v-2zm4 0h14v2H7v-2zm-4 6h2v2H3v-2zm4 0h14v2H7v-2z"
+                fill="currentColor"
+              />
+            </svg>
+          ),
+          title: "Outline",
+        },
+        {
+          content: (
+            <HighlightList
+              highlights={highlights}
+              activeHighlightId={activeHighlightId}
+              onSelect={handleSelectHighlight}
+              onAskDobby={handleAskAboutHighlight}
+              onNoteChange={handleHighlightNoteChange}
+              onDelete={handleDeleteHighlight}
+            />
+          ),
+          icon: (
+            <svg viewBox="0 0 24 24" width="24px" height="24px">
+              <path
+                d="M3 21h4l11-11-4-4L3 17v4zm13.3-15.3 1.4-1.4a1 1 0 0 1 1.4 0l1.6 1.6a1 1 0 0 1 0 1.4l-1.4 1.4-3-3z"
+                fill="currentColor"
+              />
+            </svg>
+          ),
+          title: "Highlights",
+        },
+        {
+          content: (
+            <SearchPanel
+              query={searchQuery}
+              options={searchOptions}
+              hits={searchHits}
+              currentHit={currentHit}
+              onQueryChange={(query) => {
+                setSearchQuery(query);
+                setCurrentHit(0);
+              }}
+              onOptionsChange={(options) => {
+                setSearchOptions(options);
+                setCurrentHit(0);
+              }}
+              onSelectHit={handleSelectSearchHit}
             />
-          </svg>
-        ),
-        title: "Block Information",
-      },
-    ],
+          ),
+          icon: (
+            <svg viewBox="0 0 24 24" width="24px" height="24px">
+              <path
+                d="M10 2a8 8 0 0 1 6.32 12.9l5.39 5.4-1.41 1.41-5.4-5.39A8 8 0 1 1 10 2zm0 2a6 6 0 1 0 0 12 6 6 0 0 0 0-12z"
+                fill="currentColor"
+              />
+            </svg>
+          ),
+          title: "Search blocks",
+        },
+        {
+          content: <BlockInformation block={selectedBlock} progress={selectedBlock ? progress[selectedBlock.id] : undefined} />,
+          icon: (
+            <svg viewBox="0 0 24 24" width="24px" height="24px">
+              <path
+                d="M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zM6 20V4h7v5h5v11H6z"
+                fill="currentColor"
+              />
+            </svg>
+          ),
+          title: "Block Information",
+        },
+      ];
+    },
   });
 
-  // Example flattening function
-  const parseBlock = (block: Block, nextPageIndex: number, all: Block[]): number => {
-    if (block.block_type === "Page") {
-      if (typeof block.page_number === "number") {
-        block.pageIndex = block.page_number - 1;
-        if (block.pageIndex >= nextPageIndex) {
-          nextPageIndex = block.pageIndex + 1;
-        }
-      } else {
-        block.pageIndex = nextPageIndex;
-        nextPageIndex++;
+  const highlightPluginInstance = highlightPlugin({
+    renderHighlightTarget: (props) => (
+      <HighlightTarget
+        {...props}
+        onHighlight={() => handleAddHighlight(props, "")}
+        onAskDobby={() => handleAddHighlight(props, "", true)}
+      />
+    ),
+    renderHighlightContent: (props) => (
+      <HighlightNoteForm {...props} onSave={(note) => handleAddHighlight(props, note)} />
+    ),
+    renderHighlights: (props) => (
+      <HighlightMarks
+        {...props}
+        highlights={highlights}
+        activeHighlightId={activeHighlightId}
+        onSelect={handleSelectHighlight}
+      />
+    ),
+  });
+
+  // Show a document along with its saved conversations, highlights and flashcards
+  const openDocument = async (doc: {
+    docHash: string;
+    fileName: string;
+    pdfDataUrl: string;
+    blocks: Block[];
+    images: { [name: string]: string };
+    ingestion: IngestionSource;
+  }) => {
+    const [savedConversations, savedHighlights, savedDeck, savedProgress] = await Promise.all([
+      loadConversations(doc.docHash).catch((error) => {
+        console.error("Error loading saved conversations:", error);
+        return {};
+      }),
+      loadHighlights(doc.docHash).catch((error) => {
+        console.error("Error loading saved highlights:", error);
+        return [];
+      }),
+      loadDeck(doc.docHash).catch((error) => {
+        console.error("Error loading flashcards:", error);
+        return [];
+      }),
+      loadProgress(doc.docHash).catch((error) => {
+        console.error("Error loading reading progress:", error);
+        return {};
+      }),
+    ]);
+
+    setBlocks(doc.blocks);
+    setIngestion(doc.ingestion);
+    setImages(doc.images);
+    setDocHash(doc.docHash);
+    setFileName(doc.fileName);
+    setConversations(savedConversations);
+    setHighlights(savedHighlights);
+    setDeck(savedDeck);
+    progressRef.current = { docHash: doc.docHash, records: savedProgress };
+    setProgress(savedProgress);
+    // Nothing from the previous document's view carries over
+    setSelectedBlocks([]);
+    setActiveBlockId(null);
+    setDocumentChatOpen(false);
+    setStudyPane(null);
+    setReadAloud(null);
+    setReadingBlock(null);
+    setActiveHighlightId(null);
+    setSearchQuery("");
+    setCurrentHit(0);
+    setCurrentPage(0);
+    setPdfFile(doc.pdfDataUrl);
+  };
+
+  const refreshLibrary = () => {
+    listDocuments()
+      .then(setLibrary)
+      .catch((error) => console.error("Error loading the document library:", error));
+  };
+
+  useEffect(refreshLibrary, []);
+
+  useEffect(() => {
+    getDemoStatus().then(setDemo);
+  }, []);
+
+  // Open a PDF from the library if it is already there; otherwise process it (Marker,
+  // or its recorded response in demo mode, else the pdf.js text layer), add it and open it
+  const ingestFile = async (file: File) => {
+    setLoading(true);
+    setUploadError(null);
+    try {
+      const hash = await hashFile(file);
+      const pdfDataUrl = await readAsDataUrl(file);
+
+      // Already in the library: reuse its blocks instead of processing it again
+      const [stored, storedFile] = await Promise.all([loadDocument(hash), loadDocumentFile(hash)]).catch((error) => {
+        console.error("Error looking the document up in the library:", error);
+        return [null, null];
+      });
+      if (stored && storedFile) {
+        markDocumentOpened(hash).catch((error) => console.error("Error updating the document library:", error));
+        await openDocument({
+          docHash: hash,
+          fileName: stored.fileName,
+          pdfDataUrl,
+          blocks: storedFile.blocks,
+          images: storedFile.images,
+          ingestion: stored.ingestion,
+        });
+        return;
       }
-    } else {
-      if (typeof block.pageIndex !== "number") {
-        block.pageIndex = 0;
+
+      let model: DocumentModel;
+      let source: IngestionSource = "marker";
+      try {
+        model = buildDocumentModel(demo?.enabled ? await fetchRecording(hash) : await processPdf(file));
+      } catch (error) {
+        // Backend down, Marker key missing, no recording or a bad payload: read the text layer ourselves
+        console.warn("Marker processing unavailable, falling back to pdf.js:", error);
+        try {
+          model = buildDocumentModel(await extractTextDocument(await file.arrayBuffer()));
+          source = "pdfjs";
+        } catch (fallbackError) {
+          console.error("Error reading the PDF:", fallbackError);
+          setUploadError({
+            message:
+              `Couldn't read "${file.name}". The PDF backend failed (${describeError(error)}) ` +
+              `and its text layer could not be read: ${describeError(fallbackError)}`,
+            retry: () => ingestFile(file),
+          });
+          return;
+        }
       }
+
+      const now = Date.now();
+      saveDocument(
+        {
+          docHash: hash,
+          fileName: file.name,
+          pageCount: model.pageCount,
+          ingestion: source,
+          addedAt: now,
+          lastOpenedAt: now,
+        },
+        { docHash: hash, pdf: file, blocks: model.blocks, images: model.images }
+      ).catch((error) => console.error("Error adding the document to the library:", error));
+
+      await openDocument({
+        docHash: hash,
+        fileName: file.name,
+        pdfDataUrl,
+        blocks: model.blocks,
+        images: model.images,
+        ingestion: source,
+      });
+    } catch (error) {
+      console.error("Error processing PDF:", error);
+      setUploadError({
+        message: `Couldn't open "${file.name}": ${describeError(error)}`,
+        retry: () => ingestFile(file),
+      });
+    } finally {
+      setLoading(false);
     }
-    all.push(block);
-    if (block.children) {
-      for (const child of block.children) {
-        child.pageIndex = block.pageIndex;
-        nextPageIndex = parseBlock(child, nextPageIndex, all);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still triggers a change
+    e.target.value = "";
+    if (file) ingestFile(file);
+  };
+
+  const handleOpenFromLibrary = async (entry: LibraryEntry) => {
+    setLoading(true);
+    setUploadError(null);
+    try {
+      const file = await loadDocumentFile(entry.docHash);
+      if (!file) {
+        setUploadError({ message: `"${entry.fileName}" is no longer stored. Upload it again to reopen it.` });
+        return;
       }
+      markDocumentOpened(entry.docHash).catch((error) =>
+        console.error("Error updating the document library:", error)
+      );
+      await openDocument({
+        docHash: entry.docHash,
+        fileName: entry.fileName,
+        pdfDataUrl: await readAsDataUrl(file.pdf),
+        blocks: file.blocks,
+        images: file.images,
+        ingestion: entry.ingestion,
+      });
+    } catch (error) {
+      console.error("Error opening document:", error);
+      setUploadError({
+        message: `Couldn't open "${entry.fileName}": ${describeError(error)}`,
+        retry: () => handleOpenFromLibrary(entry),
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenDemo = async (doc: DemoDocument) => {
+    setLoading(true);
+    setUploadError(null);
+    try {
+      await ingestFile(await fetchDemoPdf(doc));
+    } catch (error) {
+      console.error("Error opening demo document:", error);
+      setUploadError({
+        message: `Couldn't open "${doc.title}": ${describeError(error)}`,
+        retry: () => handleOpenDemo(doc),
+      });
+    } finally {
+      setLoading(false);
     }
-    return nextPageIndex;
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleRemoveFromLibrary = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Remove "${entry.fileName}" from the library? Its notes and chats are kept.`)) return;
+    await removeDocument(entry.docHash).catch((error) =>
+      console.error("Error removing the document:", error)
+    );
+    refreshLibrary();
+  };
+
+  // Back to the start screen; the library shows up-to-date chat counts
+  const handleCloseDocument = () => {
+    setPdfFile(null);
+    refreshLibrary();
+  };
+
+  const { jumpToPage } = defaultLayoutPluginInstance.toolbarPluginInstance.pageNavigationPluginInstance;
+
+  const exportBaseName = fileName.replace(/\.pdf$/i, "") || "document";
+
+  const handleExportMarkdown = () => {
+    downloadFile(
+      `${exportBaseName}-notes.md`,
+      exportMarkdown(fileName, readingBlocks, conversations, personas),
+      "text/markdown"
+    );
+  };
+
+  const handleExportSession = () => {
+    if (!docHash) return;
+    downloadFile(
+      `${exportBaseName}-session.json`,
+      exportSession(docHash, fileName, conversations),
+      "application/json"
+    );
+  };
+
+  // Restore an exported session, replacing this document's conversations
+  const handleImportSession = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
+    e.target.value = "";
+    if (!file || !docHash) return;
 
-    setLoading(true);
     try {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const base64 = e.target?.result as string;
-        const formData = new FormData();
-        formData.append("file", file);
-        const response = await fetch("http://localhost:8000/api/process-pdf", {
-          method: "POST",
-          body: formData,
-        });
-        const data = await response.json();
-
-        let allBlocks: Block[] = [];
-        if (data.blocks && data.blocks.children) {
-          let nextPageIndex = 0;
-          for (const topBlock of data.blocks.children) {
-            nextPageIndex = parseBlock(topBlock, nextPageIndex, allBlocks);
-          }
-        }
-        setBlocks(allBlocks);
-        setPdfFile(base64);
-      };
-      reader.readAsDataURL(file);
+      const session = parseSession(await file.text());
+      if (
+        session.docHash !== docHash &&
+        !window.confirm(
+          `This session was exported from "${session.fileName}", not this PDF. Import it anyway?`
+        )
+      ) {
+        return;
+      }
+      if (
+        Object.keys(conversations).length > 0 &&
+        !window.confirm("Replace this document's conversations with the imported session?")
+      ) {
+        return;
+      }
+
+      await deleteDocumentConversations(docHash);
+      await Promise.all(
+        Object.entries(session.conversations).map(([key, messages]) =>
+          saveConversation(docHash, key, messages)
+        )
+      );
+      setSelectedBlocks([]);
+      setDocumentChatOpen(false);
+      setConversations(session.conversations);
     } catch (error) {
-      console.error("Error processing PDF:", error);
+      console.error("Error importing session:", error);
+      window.alert(error instanceof Error ? error.message : "Could not import the session.");
+    }
+  };
+
+  const handleBlockClick = useCallback((block: Block, extend: boolean) => {
+    setActiveBlockId(block.id);
+    setDocumentChatOpen(false);
+    setStudyPane(null);
+    setSelectedBlocks((prev) => {
+      // Shift-click toggles chat blocks in and out of a multi-block selection
+      if (extend && isChatBlock(block) && prev.every(isChatBlock)) {
+        return prev.some((b) => b.id === block.id)
+          ? prev.filter((b) => b.id !== block.id)
+          : [...prev, block];
+      }
+      return [block];
+    });
+  }, []);
+
+  // Move the reading cursor and bring the block on screen, focusing it unless the caller
+  // keeps focus (the search box). Pages are rendered lazily, so an off-screen block's
+  // box may only exist once its page has been jumped to.
+  const moveToBlock = (block: Block, focus = true) => {
+    setActiveBlockId(block.id);
+    const reveal = () => {
+      const element = document.querySelector<HTMLElement>(
+        `[data-block-id="${CSS.escape(block.id)}"]`
+      );
+      if (!element) return false;
+      element.scrollIntoView({ block: "center", behavior: "smooth" });
+      if (focus) element.focus({ preventScroll: true });
+      return true;
+    };
+    if (!reveal()) {
+      jumpToPage(block.pageIndex ?? 0);
+      setTimeout(reveal, 200);
+    }
+  };
+
+  // j/k step through text blocks, Enter opens the chat, Esc closes it. Only while
+  // focus is on a block or nowhere in particular, so buttons and links keep their keys.
+  const handleReadingKey = (e: KeyboardEvent) => {
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+    const target = e.target as HTMLElement | null;
+    const isEditing = target?.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName ?? "");
+    const onBlock = Boolean(target?.closest?.("[data-block-id]"));
+    const onPage = !target || target === document.body;
+
+    if (e.key === "Escape" && isEditing) {
+      target?.blur();
+      return;
+    }
+    if (!onBlock && !onPage) return;
+
+    if (e.key === "Escape") {
+      if (studyPane) {
+        setStudyPane(null);
+      } else if (selectedBlocks.length > 0 || documentChatOpen) {
+        setSelectedBlocks([]);
+        setDocumentChatOpen(false);
+      }
+      return;
+    }
+    if (navigableBlocks.length === 0) return;
+
+    const index = navigableBlocks.findIndex((b) => b.id === activeBlockId);
+    if (e.key === "j" || e.key === "k") {
+      e.preventDefault();
+      let next: number;
+      if (index >= 0) {
+        next = Math.min(Math.max(index + (e.key === "j" ? 1 : -1), 0), navigableBlocks.length - 1);
+      } else {
+        // No cursor yet: start at the first text block of the page being read
+        const onPage = navigableBlocks.findIndex((b) => (b.pageIndex ?? 0) >= currentPage);
+        next = onPage >= 0 ? onPage : 0;
+      }
+      moveToBlock(navigableBlocks[next]);
+    } else if (e.key === "Enter" && onPage && index >= 0) {
+      // A focused block handles Enter itself
+      e.preventDefault();
+      handleBlockClick(navigableBlocks[index], false);
     }
-    setLoading(false);
   };
+  // The listener stays registered while a document is open and calls the latest handler
+  const readingKeyRef = useRef(handleReadingKey);
+  readingKeyRef.current = handleReadingKey;
 
-  const handleBlockClick = useCallback((block: Block) => {
-    setSelectedBlock(block);
+  useEffect(() => {
+    if (!pdfFile) return;
+    const handleKeyDown = (e: KeyboardEvent) => readingKeyRef.current(e);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [pdfFile]);
+
+  // Step to a search hit: scroll it into view and select it, which opens the chat
+  // pane for blocks Dobby can chat about (headings and the like are only shown)
+  const handleSelectSearchHit = (index: number) => {
+    const hit = searchHits[index];
+    if (!hit) return;
+    setCurrentHit(index);
+    moveToBlock(hit.block, false);
+    setDocumentChatOpen(false);
+    setStudyPane(null);
+    setSelectedBlocks([hit.block]);
+  };
+
+  // Jump to a cited block and select it, keeping the document chat open
+  const handleCitationClick = (block: Block) => {
+    jumpToPage(block.pageIndex ?? 0);
+    setSelectedBlocks([block]);
+  };
+
+  const handleSelectPage = () => {
+    const pageBlocks = blocks.filter(
+      (b) => (b.pageIndex ?? 0) === currentPage && isChatBlock(b)
+    );
+    if (pageBlocks.length > 0) setSelectedBlocks(pageBlocks);
+  };
+
+  // Demo mode has no speech: read-aloud is skipped rather than handed to the browser's voice
+  const startReadAloud = (label: string, readBlocks: Block[]) => {
+    if (demo?.enabled || readBlocks.length === 0) return;
+    setReadAloud({ label, blocks: readBlocks });
+  };
+
+  const handleReadPage = () => {
+    const pageBlocks = navigableBlocks.filter((b) => (b.pageIndex ?? 0) === currentPage);
+    startReadAloud(`page ${currentPage + 1}`, pageBlocks);
+  };
+
+  // The section around the current page, heading first
+  const currentSection = currentOutlineEntry(outline, currentPage);
+  const handleReadSection = () => {
+    if (!currentSection) return;
+    const ids = new Set([currentSection.id, ...currentSection.blockIds]);
+    const sectionBlocks = blocks.filter(
+      (b) => ids.has(b.id) && (b.block_type === "SectionHeader" || blockKind(b) === "text")
+    );
+    startReadAloud(`“${currentSection.title}”`, sectionBlocks);
+  };
+
+  // Quiz the section containing the block, or just the given blocks outside any section
+  const handleQuiz = (selection: Block[]) => {
+    const first = selection[0];
+    const section = first
+      ? outline.find((entry) => entry.id === first.id || entry.blockIds.includes(first.id))
+      : currentSection;
+    if (section?.blockIds.length) {
+      const ids = new Set(section.blockIds);
+      setStudyPane({ mode: "quiz", id: uuidv4(), title: section.title, blocks: blocks.filter((b) => ids.has(b.id)) });
+    } else if (selection.length > 0) {
+      setStudyPane({ mode: "quiz", id: uuidv4(), title: `page ${(first.pageIndex ?? 0) + 1}`, blocks: selection });
+    }
+  };
+
+  const handleSaveCards = (questions: QuizQuestion[]) => {
+    if (!docHash) return;
+    const cards = questions.map((q) => newFlashcard({ id: uuidv4(), docHash, ...q }));
+    setDeck((prev) => [...prev, ...cards]);
+    saveFlashcards(cards).catch((error) => console.error("Error saving flashcards:", error));
+  };
+
+  const handleReviewCard = (card: Flashcard, rating: ReviewRating) => {
+    const updated = scheduleReview(card, rating);
+    setDeck((prev) => prev.map((c) => (c.id === card.id ? updated : c)));
+    saveFlashcards([updated]).catch((error) => console.error("Error saving flashcard:", error));
+  };
+
+  const handleDeleteCard = (card: Flashcard) => {
+    setDeck((prev) => prev.filter((c) => c.id !== card.id));
+    deleteFlashcard(card.id).catch((error) => console.error("Error deleting flashcard:", error));
+  };
+
+  const handleExportDeck = () => {
+    downloadFile(`${exportBaseName}-flashcards.csv`, exportAnkiCsv(deck), "text/csv");
+  };
+
+  const dueCount = deck.filter((card) => isDue(card)).length;
+
+  const handleStopReading = () => {
+    setReadAloud(null);
+    setReadingBlock(null);
+  };
+
+  // Keep the block being narrated on screen
+  useEffect(() => {
+    if (readingBlock && (readingBlock.pageIndex ?? 0) !== currentPage) {
+      jumpToPage(readingBlock.pageIndex ?? 0);
+    }
+    // Follow the narration only when it moves on, so the reader can still scroll away
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [readingBlock]);
+
+  const updateProgress = useCallback(
+    (blockIds: string[], change: ProgressChange) => {
+      // Highlights and the whole-document chat have no blocks of their own to track
+      const tracked = blockIds.filter((id) => progressBlockIds.has(id));
+      if (!docHash || tracked.length === 0 || progressRef.current.docHash !== docHash) return;
+      const changed = applyProgress(progressRef.current.records, docHash, tracked, change);
+      if (changed.length === 0) return;
+      const next = { ...progressRef.current.records };
+      for (const record of changed) next[record.blockId] = record;
+      progressRef.current = { docHash, records: next };
+      setProgress(next);
+      saveProgress(changed).catch((error) => console.error("Error saving reading progress:", error));
+    },
+    [docHash, progressBlockIds]
+  );
+
+  // Time on the current page counts towards each of its blocks while the tab is visible
+  useEffect(() => {
+    if (!pdfFile) return;
+    const pageBlockIds = progressBlocks
+      .filter((b) => (b.pageIndex ?? 0) === currentPage)
+      .map((b) => b.id);
+    let since = Date.now();
+    const flush = () => {
+      const now = Date.now();
+      if (document.visibilityState === "visible") {
+        updateProgress(pageBlockIds, { dwellMs: now - since });
+      }
+      since = now;
+    };
+    const timer = window.setInterval(flush, DWELL_FLUSH_MS);
+    return () => {
+      window.clearInterval(timer);
+      flush();
+    };
+  }, [pdfFile, currentPage, progressBlocks, updateProgress]);
+
+  // Opening blocks in the chat pane counts as working through them
+  useEffect(() => {
+    if (selectedBlocks.length > 0 && selectedBlocks.every(isChatBlock)) {
+      updateProgress(selectedBlocks.map((b) => b.id), { flag: "opened" });
+    }
+  }, [selectedBlocks, updateProgress]);
+
+  // Load the cached translations whenever the document or target language changes
+  useEffect(() => {
+    if (!docHash || !translationLanguage) {
+      setTranslations(null);
+      return;
+    }
+    let cancelled = false;
+    loadTranslations(docHash, translationLanguage)
+      .catch((error) => {
+        console.error("Error loading translations:", error);
+        return { texts: {}, glossary: {} };
+      })
+      .then((cached) => {
+        if (!cancelled) setTranslations({ docHash, language: translationLanguage, ...cached });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [docHash, translationLanguage]);
+
+  // Translate the blocks that have no cached translation yet, a batch at a time,
+  // carrying the glossary from one batch to the next
+  const translateBlocks = async (targets: Block[]) => {
+    if (!docHash || !translations || translations.docHash !== docHash) return;
+    const { language } = translations;
+    const pending = targets.filter(
+      (b) => isTranslatable(b) && !(b.id in translations.texts) && !translatingIds.has(b.id)
+    );
+    if (pending.length === 0) return;
+
+    setTranslationError(null);
+    setTranslatingIds((prev) => new Set([...prev, ...pending.map((b) => b.id)]));
+    let glossary = translations.glossary;
+    try {
+      for (const batch of translationBatches(pending)) {
+        const raw = await callChat(translationRequestMessages(batch, language, glossary), "leashed");
+        const result = parseTranslation(raw, new Set(batch.map((b) => b.id)), glossary);
+        glossary = result.glossary;
+        setTranslations((prev) =>
+          prev?.docHash === docHash && prev.language === language
+            ? { ...prev, texts: { ...prev.texts, ...result.texts }, glossary: { ...result.glossary, ...prev.glossary } }
+            : prev
+        );
+        saveTranslations(docHash, language, result).catch((error) =>
+          console.error("Error saving translations:", error)
+        );
+      }
+    } catch (error) {
+      console.error("Error translating:", error);
+      setTranslationError(`Couldn't translate: ${describeError(error)}`);
+    } finally {
+      setTranslatingIds((prev) => {
+        const next = new Set(prev);
+        pending.forEach((b) => next.delete(b.id));
+        return next;
+      });
+    }
+  };
+
+  // In translation mode, a selection is translated as soon as it is made
+  useEffect(() => {
+    if (translations && selectedBlocks.length > 0) translateBlocks(selectedBlocks);
+    // Only a new selection or a newly loaded language should start requests
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedBlocks, translations?.docHash, translations?.language]);
+
+  const handleTranslatePage = () => {
+    translateBlocks(blocks.filter((b) => (b.pageIndex ?? 0) === currentPage));
+  };
+
+  // Translation of the chat selection, once every translatable block in it has one
+  const selectionTranslation = useMemo(() => {
+    if (!translations || showOriginal) return null;
+    const parts = inReadingOrder(selectedBlocks, blocks)
+      .filter(isTranslatable)
+      .map((b) => translations.texts[b.id]);
+    if (parts.length === 0 || parts.some((text) => text === undefined)) return null;
+    return { language: translations.language, text: parts.join("\n\n") };
+  }, [translations, showOriginal, selectedBlocks, blocks]);
+
+  const handleNextUnreadSection = () => {
+    const next = nextUnreadSection(outline, progress, currentSection);
+    if (!next) {
+      window.alert("Every section has been read.");
+      return;
+    }
+    const firstUnread = next.blockIds
+      .map((id) => progressBlocks.find((b) => b.id === id))
+      .find((b) => b && engagementLevel(progress[b.id]) === 0);
+    if (firstUnread && blockKind(firstUnread) === "text") {
+      moveToBlock(firstUnread);
+    } else {
+      jumpToPage(next.pageIndex);
+    }
+  };
+
+  // Keep the in-memory map current and mirror each change into IndexedDB
+  const handleConversationChange = useCallback(
+    (blockId: string, messages: Message[]) => {
+      if (!docHash) return;
+      if (messages.some((m) => m.role === "user" && !m.failed)) {
+        updateProgress(blockId.split("+"), { flag: "discussed" });
+      }
+      setConversations((prev) => {
+        const next = { ...prev };
+        if (messages.length > 0) {
+          next[blockId] = messages;
+        } else {
+          delete next[blockId];
+        }
+        return next;
+      });
+
+      const persist = messages.length > 0
+        ? saveConversation(docHash, blockId, messages)
+        : deleteConversation(docHash, blockId);
+      persist.catch((error) => console.error("Error saving conversation:", error));
+    },
+    [docHash, updateProgress]
+  );
+
+  const { activateTab } = defaultLayoutPluginInstance;
+  const { jumpToHighlightArea } = highlightPluginInstance;
+
+  // Save the current text selection as a highlight, optionally opening a chat about it
+  const handleAddHighlight = (
+    selection: { selectedText: string; highlightAreas: Highlight["areas"]; cancel: () => void },
+    note: string,
+    askDobby = false
+  ) => {
+    if (!docHash) return;
+    // A selection with no areas could not be drawn or placed in the text
+    if (selection.highlightAreas.length === 0) {
+      selection.cancel();
+      return;
+    }
+    const highlight: Highlight = {
+      id: uuidv4(),
+      docHash,
+      text: selection.selectedText,
+      areas: selection.highlightAreas,
+      note,
+      createdAt: Date.now(),
+    };
+    setHighlights((prev) => [...prev, highlight]);
+    saveHighlight(highlight).catch((error) => console.error("Error saving highlight:", error));
+    selection.cancel();
+    if (askDobby) handleAskAboutHighlight(highlight);
+  };
+
+  const handleSelectHighlight = (highlight: Highlight) => {
+    setActiveHighlightId(highlight.id);
+    if (highlight.areas[0]) jumpToHighlightArea(highlight.areas[0]);
+    activateTab(highlightsTabIndexRef.current);
+  };
+
+  const handleAskAboutHighlight = (highlight: Highlight) => {
+    const block = toHighlightBlock(highlight, blocks);
+    if (!block) return;
+    setActiveHighlightId(highlight.id);
+    setDocumentChatOpen(false);
+    setSelectedBlocks([block]);
+  };
+
+  const handleHighlightNoteChange = (highlight: Highlight, note: string) => {
+    const updated = { ...highlight, note };
+    setHighlights((prev) => prev.map((h) => (h.id === highlight.id ? updated : h)));
+    saveHighlight(updated).catch((error) => console.error("Error saving highlight:", error));
+  };
+
+  // Deleting a highlight also drops the chat anchored to it
+  const handleDeleteHighlight = (highlight: Highlight) => {
+    if (!window.confirm("Delete this highlight and its note?")) return;
+    const blockId = highlightBlockId(highlight);
+    setHighlights((prev) => prev.filter((h) => h.id !== highlight.id));
+    setSelectedBlocks((prev) => prev.filter((b) => b.id !== blockId));
+    handleConversationChange(blockId, []);
+    deleteHighlight(highlight.id).catch((error) =>
+      console.error("Error deleting highlight:", error)
+    );
+  };
+
+  useEffect(() => {
+    loadPersonas()
+      .then(setPersonas)
+      .catch((error) => console.error("Error loading personas:", error));
   }, []);
 
+  const handleSavePersona = (persona: Persona) => {
+    setPersonas((prev) =>
+      prev.some((p) => p.id === persona.id)
+        ? prev.map((p) => (p.id === persona.id ? persona : p))
+        : [...prev, persona]
+    );
+    savePersona(persona).catch((error) => console.error("Error saving persona:", error));
+  };
+
+  const handleDeletePersona = (persona: Persona) => {
+    setPersonas((prev) => prev.filter((p) => p.id !== persona.id));
+    deletePersona(persona.id).catch((error) => console.error("Error deleting persona:", error));
+  };
+
+  const handleClearDocument = async () => {
+    if (!docHash) return;
+    if (!window.confirm("Clear every Dobby conversation for this document?")) return;
+    setSelectedBlocks([]);
+    setDocumentChatOpen(false);
+    setConversations({});
+    try {
+      await deleteDocumentConversations(docHash);
+    } catch (error) {
+      console.error("Error clearing document conversations:", error);
+    }
+  };
+
   const renderOverlay = useCallback(
     (props: { pageIndex: number; scale: number; rotation: number }) => {
       const { scale, pageIndex } = props;
       return (
         <div
+          role="group"
+          aria-label={`Blocks on page ${pageIndex + 1}`}
           style={{
             position: "absolute",
             top: 0,
@@ -170,8 +1111,21 @@ export default function PDFViewer() {
               const w = Math.max(...b.polygon.map((p) => p[0])) - x;
               const h = Math.max(...b.polygon.map((p) => p[1])) - y;
 
-              const isSelected = selectedBlock?.id === b.id;
-              const isTextType = b.block_type.toLowerCase() === "text";
+              const isSelected = selectedBlocks.some((s) => s.id === b.id);
+              const isSearchHit = searchHitIds.has(b.id);
+              const isCurrentHit = searchHits[currentHit]?.block.id === b.id;
+              const isActive = activeBlockId === b.id;
+              const isReading = readingBlock?.id === b.id;
+              const text = b.html?.replace(/<[^>]*>/g, "") || "";
+              const kind = blockKind(b);
+              const translation = translations?.docHash === docHash && !showOriginal
+                ? translations.texts[b.id]
+                : undefined;
+              const isTranslating = translatingIds.has(b.id);
+              // Text blocks are outlined in blue; tables, equations and figures in green
+              const borderColor = kind === null
+                ? "transparent"
+                : kind === "text" ? "rgba(0, 0, 255, 0.6)" : "rgba(0, 128, 0, 0.6)";
 
               const style = {
                 position: "absolute" as const,
@@ -179,30 +1133,95 @@ export default function PDFViewer() {
                 top: `${y * scale}px`,
                 width: `${w * scale}px`,
                 height: `${h * scale}px`,
-                backgroundColor: "transparent",
-                border: `1px solid ${isTextType ? "rgba(0, 0, 255, 0.6)" : "transparent"}`,
+                backgroundColor: isReading
+                  ? "rgba(245, 158, 11, 0.25)"
+                  : isSelected
+                    ? "rgba(0, 0, 255, 0.08)"
+                    : heatmap && isContentBlock(b)
+                      ? HEATMAP_TINTS[engagementLevel(progress[b.id])]
+                      : "transparent",
+                border: isSearchHit
+                  ? `${isCurrentHit ? 3 : 2}px solid rgba(234, 88, 12, 0.9)`
+                  : `1px solid ${borderColor}`,
                 cursor: "pointer",
+                pointerEvents: highlightMode ? ("none" as const) : ("auto" as const),
+                outline: isActive ? "2px solid rgba(147, 51, 234, 0.9)" : undefined,
+                outlineOffset: "2px",
                 transition: "all 0.2s ease-in-out",
                 zIndex: isSelected ? 2 : 1,
               };
               return (
                 <div
                   key={b.id}
+                  data-block-id={b.id}
+                  role="button"
+                  // Chat blocks are tab stops and open with Enter or Space; the rest stay reachable by mouse only
+                  tabIndex={kind ? 0 : -1}
+                  aria-label={`${b.block_type} on page ${pageIndex + 1}: ${text.slice(0, 120)}`}
+                  aria-pressed={isSelected}
                   style={style}
-                  className="hover:border-blue-800"
-                  onClick={() => handleBlockClick(b)}
-                  title={b.html?.replace(/<[^>]*>/g, "") || ""}
-                />
+                  className="hover:border-blue-800 focus:outline-none"
+                  onClick={(e) => handleBlockClick(b, e.shiftKey)}
+                  onFocus={() => setActiveBlockId(b.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === " " || e.key === "Enter") {
+                      e.preventDefault();
+                      handleBlockClick(b, e.shiftKey);
+                    }
+                  }}
+                  title={translation ?? text}
+                >
+                  {translation && (
+                    // Covers the original text; the font follows the zoom so it stays in the box
+                    <div
+                      style={{
+                        position: "absolute",
+                        inset: 0,
+                        overflow: "hidden",
+                        backgroundColor: "rgba(240, 249, 255, 0.97)",
+                        color: "#111827",
+                        fontSize: `${Math.max(8 * scale, 6)}px`,
+                        lineHeight: 1.2,
+                      }}
+                    >
+                      {translation}
+                    </div>
+                  )}
+                  {isTranslating && (
+                    <span
+                      style={{ position: "absolute", top: 0, right: 0, fontSize: "10px" }}
+                      className="px-1 rounded bg-sky-100 text-sky-800"
+                    >
+                      Translating...
+                    </span>
+                  )}
+                </div>
               );
             })}
         </div>
       );
     },
-    [blocks, selectedBlock, handleBlockClick]
+    [
+      blocks,
+      selectedBlocks,
+      activeBlockId,
+      readingBlock,
+      highlightMode,
+      heatmap,
+      progress,
+      translations,
+      translatingIds,
+      showOriginal,
+      docHash,
+      searchHits,
+      searchHitIds,
+      currentHit,
+      handleBlockClick,
+    ]
   );
 
-  const textBlockTypes = ["text", "listitem"];
-  const isTextBlock = selectedBlock?.block_type && textBlockTypes.includes(selectedBlock.block_type.toLowerCase());
+  const isChatSelection = selectedBlocks.length > 0 && selectedBlocks.every(isChatBlock);
+  const chatKey = selectionKey(selectedBlocks);
 
   return (
     <div className="flex h-screen">
@@ -225,29 +1244,287 @@ export default function PDFViewer() {
             >
               {loading ? "Processing..." : "Upload PDF"}
             </button>
+            {uploadError && (
+              <div className="w-full max-w-xl">
+                <ErrorBanner
+                  message={uploadError.message}
+                  onRetry={uploadError.retry && !loading ? uploadError.retry : undefined}
+                  onDismiss={() => setUploadError(null)}
+                />
+              </div>
+            )}
+            {demo?.enabled && (
+              <DemoDocuments documents={demo.documents} disabled={loading} onOpen={handleOpenDemo} />
+            )}
+            <DocumentLibrary
+              entries={library}
+              onOpen={handleOpenFromLibrary}
+              onRemove={handleRemoveFromLibrary}
+            />
           </div>
         ) : (
-          <Worker workerUrl="https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js">
-            <Viewer
-              fileUrl={pdfFile}
-              plugins={[defaultLayoutPluginInstance]}
-              renderPage={(props) => (
-                <>
-                  {props.canvasLayer.children}
-                  {props.textLayer.children}
-                  {renderOverlay(props)}
-                </>
-              )}
-            />
-          </Worker>
+          <div className="flex h-full flex-col">
+            {/* Document bar */}
+            <div className="flex items-center justify-between gap-3 px-3 py-1.5 bg-gray-100 border-b border-gray-300 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <button
+                  onClick={handleCloseDocument}
+                  className="shrink-0 text-xs text-gray-600 hover:text-black"
+                  title="Back to recent documents"
+                >
+                  ← Library
+                </button>
+                <span className="truncate text-gray-700" title={fileName}>{fileName}</span>
+                {demo?.enabled && (
+                  <span
+                    className="shrink-0 px-1.5 rounded text-xs bg-purple-100 text-purple-800"
+                    title="Demo mode: Dobby's replies are scripted and no API keys are used"
+                  >
+                    Demo
+                  </span>
+                )}
+                {ingestion === "marker" ? (
+                  <span className="shrink-0 text-xs text-gray-500" title="Blocks parsed by the Marker backend">
+                    Marker
+                  </span>
+                ) : (
+                  <span
+                    className="shrink-0 px-1.5 rounded text-xs bg-amber-100 text-amber-800"
+                    title="The Marker backend was unavailable, so blocks were built from the PDF's text layer. Tables, equations and figures are not detected."
+                  >
+                    Basic text layout (offline)
+                  </span>
+                )}
+                <span
+                  className="shrink-0 flex items-center gap-1 text-xs text-gray-500"
+                  title="Blocks viewed for a few seconds, opened in chat or discussed"
+                >
+                  <span
+                    className="w-16 h-1.5 rounded bg-gray-300 overflow-hidden"
+                    role="progressbar"
+                    aria-label="Document read"
+                    aria-valuenow={Math.round(documentProgress * 100)}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                  >
+                    <span className="block h-full bg-green-500" style={{ width: `${documentProgress * 100}%` }} />
+                  </span>
+                  {Math.round(documentProgress * 100)}% read
+                </span>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="text-xs text-gray-500">
+                  Shift-click to select several blocks · j/k to move, Enter to chat, Esc to close
+                </span>
+                <button
+                  onClick={() => setTranslationLanguage((language) => (language ? null : TRANSLATION_LANGUAGES[0]))}
+                  className={`text-xs ${translationLanguage ? "text-sky-700 font-medium" : "text-gray-600 hover:text-black"}`}
+                  title="Translate blocks in place, keeping terminology consistent across the document"
+                  aria-pressed={translationLanguage !== null}
+                >
+                  Translate
+                </button>
+                <button
+                  onClick={handleNextUnreadSection}
+                  disabled={outline.length === 0}
+                  className="text-xs text-gray-600 hover:text-black disabled:opacity-50"
+                  title="Jump to the next section with blocks you have not read"
+                >
+                  Next unread section
+                </button>
+                <button
+                  onClick={() => setHeatmap((on) => !on)}
+                  className={`text-xs ${heatmap ? "text-green-700 font-medium" : "text-gray-600 hover:text-black"}`}
+                  title="Tint blocks by engagement: red unread, green viewed, darker opened or discussed"
+                  aria-pressed={heatmap}
+                >
+                  Heatmap
+                </button>
+                <button
+                  onClick={() => setHighlightMode((on) => !on)}
+                  className={`text-xs ${highlightMode ? "text-yellow-700 font-medium" : "text-gray-600 hover:text-black"}`}
+                  title="Select text on the page to highlight it, add a note or ask Dobby"
+                  aria-pressed={highlightMode}
+                >
+                  {highlightMode ? "✏️ Highlighting" : "Highlight text"}
+                </button>
+                <button
+                  onClick={() => {
+                    setStudyPane(null);
+                    setDocumentChatOpen(true);
+                  }}
+                  className="text-xs text-purple-700 hover:text-purple-900"
+                  title="Ask questions about the whole document"
+                >
+                  Ask the document
+                </button>
+                <button
+                  onClick={handleSelectPage}
+                  className="text-xs text-gray-600 hover:text-black"
+                  title="Chat about every block on the current page"
+                >
+                  Select page {currentPage + 1}
+                </button>
+                <button
+                  onClick={handleReadPage}
+                  className="text-xs text-gray-600 hover:text-black"
+                  title="Read the text of the current page aloud"
+                >
+                  Read page aloud
+                </button>
+                <button
+                  onClick={handleReadSection}
+                  disabled={!currentSection?.blockIds.length}
+                  className="text-xs text-gray-600 hover:text-black disabled:opacity-50"
+                  title={currentSection ? `Read “${currentSection.title}” aloud` : "No section headings found"}
+                >
+                  Read section aloud
+                </button>
+                <button
+                  onClick={() => handleQuiz([])}
+                  disabled={!currentSection?.blockIds.length}
+                  className="text-xs text-gray-600 hover:text-black disabled:opacity-50"
+                  title={currentSection ? `Quiz yourself on “${currentSection.title}”` : "No section headings found"}
+                >
+                  Quiz this section
+                </button>
+                <button
+                  onClick={() => {
+                    setDocumentChatOpen(false);
+                    setStudyPane({ mode: "review" });
+                  }}
+                  className="text-xs text-gray-600 hover:text-black"
+                  title="Review this document's flashcards"
+                >
+                  Review cards{dueCount > 0 ? ` (${dueCount} due)` : ""}
+                </button>
+                <button
+                  onClick={handleExportMarkdown}
+                  disabled={Object.keys(conversations).length === 0}
+                  className="text-xs text-gray-600 hover:text-black disabled:opacity-50"
+                  title="Download every conversation as a Markdown notebook"
+                >
+                  Export notes
+                </button>
+                <button
+                  onClick={handleExportSession}
+                  className="text-xs text-gray-600 hover:text-black"
+                  title="Download the session as JSON, to import again later"
+                >
+                  Save session
+                </button>
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleImportSession}
+                  className="hidden"
+                  ref={sessionInputRef}
+                />
+                <button
+                  onClick={() => sessionInputRef.current?.click()}
+                  className="text-xs text-gray-600 hover:text-black"
+                  title="Restore a session saved as JSON"
+                >
+                  Load session
+                </button>
+                <button
+                  onClick={handleClearDocument}
+                  disabled={Object.keys(conversations).length === 0}
+                  className="text-xs text-gray-600 hover:text-black disabled:opacity-50"
+                  title="Clear every conversation for this document"
+                >
+                  Clear document chats
+                </button>
+              </div>
+            </div>
+            {translationLanguage && (
+              <TranslationBar
+                language={translationLanguage}
+                pendingCount={translatingIds.size}
+                translatedCount={translations ? Object.keys(translations.texts).length : 0}
+                showOriginal={showOriginal}
+                error={translationError}
+                onLanguageChange={setTranslationLanguage}
+                onTranslatePage={handleTranslatePage}
+                onToggleOriginal={() => setShowOriginal((on) => !on)}
+                onDismissError={() => setTranslationError(null)}
+                onClose={() => {
+                  setTranslationLanguage(null);
+                  setTranslationError(null);
+                }}
+              />
+            )}
+            {readAloud && (
+              <ReadAloudBar
+                key={readAloud.label}
+                blocks={readAloud.blocks}
+                label={readAloud.label}
+                onActiveBlockChange={setReadingBlock}
+                onClose={handleStopReading}
+              />
+            )}
+            <div className="flex-1 min-h-0">
+              <Worker workerUrl={PDF_WORKER_URL}>
+                <Viewer
+                  fileUrl={pdfFile}
+                  plugins={[defaultLayoutPluginInstance, highlightPluginInstance]}
+                  onPageChange={(e) => setCurrentPage(e.currentPage)}
+                  renderPage={(props) => (
+                    <>
+                      {props.canvasLayer.children}
+                      {props.textLayer.children}
+                      {renderOverlay(props)}
+                    </>
+                  )}
+                />
+              </Worker>
+            </div>
+          </div>
         )}
       </div>
 
-      {/* Right side: Chat pane for text blocks */}
-      {selectedBlock && isTextBlock && (
+      {/* Right side: document Q&A, a quiz or review, or the chat pane for the selected blocks */}
+      {documentChatOpen ? (
+        <DocumentChatPane
+          documentBlocks={blocks}
+          personas={personas}
+          conversation={conversations[DOCUMENT_CHAT_KEY] ?? []}
+          onConversationChange={handleConversationChange}
+          onCitationClick={handleCitationClick}
+          onClose={() => setDocumentChatOpen(false)}
+        />
+      ) : studyPane?.mode === "quiz" ? (
+        <QuizPane
+          key={studyPane.id}
+          title={studyPane.title}
+          sourceBlocks={studyPane.blocks}
+          documentBlocks={blocks}
+          onSaveCards={handleSaveCards}
+          onSourceClick={handleCitationClick}
+          onClose={() => setStudyPane(null)}
+        />
+      ) : studyPane?.mode === "review" ? (
+        <FlashcardReview
+          cards={deck}
+          onReview={handleReviewCard}
+          onDelete={handleDeleteCard}
+          onExport={handleExportDeck}
+          onClose={() => setStudyPane(null)}
+        />
+      ) : isChatSelection && (
         <ChatPane
-          block={selectedBlock}
-          onClose={() => setSelectedBlock(null)}
+          key={chatKey}
+          blocks={selectedBlocks}
+          documentBlocks={readingBlocks}
+          documentImages={images}
+          conversation={conversations[chatKey] ?? []}
+          onConversationChange={handleConversationChange}
+          personas={personas}
+          onSavePersona={handleSavePersona}
+          onDeletePersona={handleDeletePersona}
+          onQuiz={handleQuiz}
+          translation={selectionTranslation}
+          onClose={() => setSelectedBlocks([])}
         />
       )}
     </div>
@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Block } from "@/utils/documentModel";
+import { checkSpeechAvailable } from "@/utils/api";
+import { stripBlockText } from "@/utils/blockContext";
+import { browserSpeechSupported, DOBBY_VOICES, getSpeech, speakWithBrowser } from "@/utils/speech";
+
+type SpeechEngine = "elevenlabs" | "browser";
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+
+interface ReadAloudBarProps {
+  // Text blocks to narrate, in reading order
+  blocks: Block[];
+  // What is being read, e.g. "Page 3" or a section title
+  label: string;
+  onActiveBlockChange: (block: Block | null) => void;
+  onClose: () => void;
+}
+
+// Narrates a queue of blocks one after another, with play/pause, skip and speed controls
+export default function ReadAloudBar({ blocks, label, onActiveBlockChange, onClose }: ReadAloudBarProps) {
+  const [engine, setEngine] = useState<SpeechEngine | null>(null);
+  // Position in the queue; blocks.length means the queue has been read to the end
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [rate, setRate] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Read from the playback effect without restarting the current block
+  const playingRef = useRef(playing);
+  const rateRef = useRef(rate);
+
+  const voiceId = DOBBY_VOICES.leashed;
+  const finished = index >= blocks.length;
+
+  useEffect(() => {
+    let cancelled = false;
+    checkSpeechAvailable()
+      .catch(() => false)
+      .then((available) => {
+        if (cancelled) return;
+        if (available) setEngine("elevenlabs");
+        else if (browserSpeechSupported()) setEngine("browser");
+        else setError("Read-aloud needs an ElevenLabs key or a browser with speech synthesis");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    onActiveBlockChange(blocks[index] ?? null);
+  }, [blocks, index, onActiveBlockChange]);
+
+  // Speak the current block, then advance. Pausing and speed changes are applied to
+  // the running clip by the effects below rather than restarting it.
+  useEffect(() => {
+    if (!engine || index >= blocks.length) return;
+    const text = stripBlockText(blocks[index]);
+    let cancelled = false;
+    let url: string | null = null;
+
+    const advance = () => {
+      if (!cancelled) setIndex((i) => i + 1);
+    };
+
+    const speakInBrowser = () =>
+      speakWithBrowser(text, rateRef.current).then(advance, (err) => {
+        if (cancelled) return;
+        console.error(err);
+        setError("Speech playback failed");
+        setPlaying(false);
+      });
+
+    if (!text) {
+      advance();
+      return;
+    }
+
+    if (engine === "browser") {
+      speakInBrowser();
+      if (!playingRef.current) window.speechSynthesis.pause();
+    } else {
+      getSpeech(text, voiceId)
+        .then((blob) => {
+          if (cancelled) return;
+          url = URL.createObjectURL(blob);
+          const audio = new Audio(url);
+          audio.playbackRate = rateRef.current;
+          audio.onended = advance;
+          audioRef.current = audio;
+          if (playingRef.current) {
+            audio.play().catch((err) => {
+              console.error("Playback failed:", err);
+              setPlaying(false);
+            });
+          }
+          // Fetch the next clip while this one plays so there is no gap between blocks
+          const next = blocks[index + 1];
+          if (next && stripBlockText(next)) getSpeech(stripBlockText(next), voiceId).catch(() => {});
+        })
+        .catch((err) => {
+          // ElevenLabs can still fail (rate limits, quota); read this block with the browser instead
+          console.error("Error generating TTS audio:", err);
+          if (!cancelled && browserSpeechSupported()) speakInBrowser();
+        });
+    }
+
+    return () => {
+      cancelled = true;
+      if (audioRef.current) {
+        audioRef.current.onended = null;
+        audioRef.current.pause();
+        audioRef.current = null;
+      }
+      if (url) URL.revokeObjectURL(url);
+      if (browserSpeechSupported()) window.speechSynthesis.cancel();
+    };
+  }, [engine, blocks, index, voiceId]);
+
+  useEffect(() => {
+    playingRef.current = playing;
+    if (playing) {
+      audioRef.current?.play().catch(() => {});
+      if (browserSpeechSupported()) window.speechSynthesis.resume();
+    } else {
+      audioRef.current?.pause();
+      if (browserSpeechSupported()) window.speechSynthesis.pause();
+    }
+  }, [playing]);
+
+  // Browser speech takes its rate per utterance, so there the new speed starts with the next block
+  useEffect(() => {
+    rateRef.current = rate;
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const skipTo = (i: number) => {
+    setError(null);
+    setIndex(Math.min(Math.max(i, 0), blocks.length));
+    setPlaying(true);
+  };
+
+  const togglePlaying = () => {
+    if (finished) skipTo(0);
+    else setPlaying((p) => !p);
+  };
+
+  return (
+    <div
+      className="flex items-center gap-3 px-3 py-1.5 bg-amber-50 border-b border-amber-200 text-sm"
+      role="region"
+      aria-label="Read aloud"
+    >
+      <span className="truncate text-gray-700">
+        🔈 Reading {label}
+        <span className="text-xs text-gray-500 ml-2" aria-live="polite">
+          {finished ? "Done" : `${index + 1} / ${blocks.length}`}
+          {engine === "browser" && " · browser voice"}
+        </span>
+      </span>
+      <div className="flex items-center gap-1 ml-auto shrink-0">
+        <button
+          onClick={() => skipTo(index - 1)}
+          disabled={!engine || index === 0}
+          className="px-1.5 rounded hover:bg-amber-100 disabled:opacity-50"
+          title="Previous block"
+          aria-label="Previous block"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={togglePlaying}
+          disabled={!engine}
+          className="px-1.5 rounded hover:bg-amber-100 disabled:opacity-50"
+          title={playing && !finished ? "Pause" : "Play"}
+          aria-label={playing && !finished ? "Pause" : "Play"}
+        >
+          {playing && !finished ? "⏸" : "▶"}
+        </button>
+        <button
+          onClick={() => skipTo(index + 1)}
+          disabled={!engine || finished}
+          className="px-1.5 rounded hover:bg-amber-100 disabled:opacity-50"
+          title="Next block"
+          aria-label="Next block"
+        >
+          ⏭
+        </button>
+        <select
+          value={rate}
+          onChange={(e) => setRate(Number(e.target.value))}
+          className="text-xs bg-transparent border rounded px-1"
+          aria-label="Reading speed"
+        >
+          {SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>
+              {speed}×
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onClose}
+          className="px-1.5 text-gray-500 hover:text-black"
+          title="Stop reading"
+          aria-label="Stop reading"
+        >
+          ✕
+        </button>
+      </div>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import type { SearchHit, SearchOptions } from "@/utils/blockSearch";
+
+interface SearchPanelProps {
+  query: string;
+  options: SearchOptions;
+  hits: SearchHit[];
+  currentHit: number;
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onSelectHit: (index: number) => void;
+}
+
+// Sidebar tab searching the parsed blocks (not the pdf.js text layer)
+export default function SearchPanel({
+  query,
+  options,
+  hits,
+  currentHit,
+  onQueryChange,
+  onOptionsChange,
+  onSelectHit,
+}: SearchPanelProps) {
+  const step = (delta: number) => {
+    if (hits.length === 0) return;
+    onSelectHit((currentHit + delta + hits.length) % hits.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      step(e.shiftKey ? -1 : 1);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full text-sm">
+      <div className="p-2 space-y-2 border-b border-gray-200">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search blocks..."
+          className="w-full p-1.5 border rounded"
+          aria-label="Search the document's blocks"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-3 text-xs">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={options.matchCase}
+                onChange={(e) => onOptionsChange({ ...options, matchCase: e.target.checked })}
+              />
+              Match case
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={options.wholeWord}
+                onChange={(e) => onOptionsChange({ ...options, wholeWord: e.target.checked })}
+              />
+              Whole word
+            </label>
+          </div>
+          <div className="flex items-center gap-1 text-xs">
+            <span className="text-gray-500" aria-live="polite">
+              {hits.length > 0 ? `${currentHit + 1} / ${hits.length}` : query.trim() ? "No hits" : ""}
+            </span>
+            <button
+              onClick={() => step(-1)}
+              disabled={hits.length === 0}
+              className="px-1.5 rounded hover:bg-gray-100 disabled:opacity-50"
+              title="Previous hit (Shift+Enter)"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => step(1)}
+              disabled={hits.length === 0}
+              className="px-1.5 rounded hover:bg-gray-100 disabled:opacity-50"
+              title="Next hit (Enter)"
+            >
+              ↓
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {hits.map((hit, i) => (
+          <li key={hit.block.id}>
+            <button
+              onClick={() => onSelectHit(i)}
+              className={`w-full text-left p-1.5 rounded ${
+                i === currentHit ? "bg-orange-100" : "hover:bg-gray-100"
+              }`}
+            >
+              <span className="text-xs text-gray-500">
+                Page {(hit.block.pageIndex ?? 0) + 1} · {hit.block.block_type}
+                {hit.matchCount > 1 ? ` · ${hit.matchCount} matches` : ""}
+              </span>
+              <p>
+                {hit.snippet.before}
+                <mark className="bg-orange-200">{hit.snippet.match}</mark>
+                {hit.snippet.after}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { TRANSLATION_LANGUAGES } from "@/utils/translation";
+
+interface TranslationBarProps {
+  language: string;
+  // Blocks waiting on a translation request
+  pendingCount: number;
+  translatedCount: number;
+  showOriginal: boolean;
+  error: string | null;
+  onLanguageChange: (language: string) => void;
+  onTranslatePage: () => void;
+  onToggleOriginal: () => void;
+  onDismissError: () => void;
+  onClose: () => void;
+}
+
+// Controls for translate-in-place: the target language, translating the current
+// page, and switching the overlays between the translation and the original
+export default function TranslationBar({
+  language,
+  pendingCount,
+  translatedCount,
+  showOriginal,
+  error,
+  onLanguageChange,
+  onTranslatePage,
+  onToggleOriginal,
+  onDismissError,
+  onClose,
+}: TranslationBarProps) {
+  return (
+    <div
+      className="flex items-center gap-3 px-3 py-1.5 bg-sky-50 border-b border-sky-200 text-sm"
+      role="region"
+      aria-label="Translation"
+    >
+      <label className="flex items-center gap-1 text-gray-700">
+        🌐 Translate to
+        <select
+          value={language}
+          onChange={(e) => onLanguageChange(e.target.value)}
+          className="p-0.5 border rounded text-xs"
+        >
+          {TRANSLATION_LANGUAGES.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      </label>
+      <span className="text-xs text-gray-500" aria-live="polite">
+        {pendingCount > 0
+          ? `Translating ${pendingCount} block${pendingCount === 1 ? "" : "s"}...`
+          : `${translatedCount} block${translatedCount === 1 ? "" : "s"} translated · click a block to translate it`}
+      </span>
+      {error && (
+        <span className="flex items-center gap-1 text-xs text-red-700" role="alert">
+          {error}
+          <button onClick={onDismissError} className="hover:text-red-900" aria-label="Dismiss">
+            ✕
+          </button>
+        </span>
+      )}
+      <div className="flex items-center gap-3 ml-auto shrink-0">
+        <button onClick={onTranslatePage} className="text-xs text-sky-700 hover:text-sky-900">
+          Translate page
+        </button>
+        <button
+          onClick={onToggleOriginal}
+          className="text-xs text-gray-600 hover:text-black"
+          aria-pressed={showOriginal}
+        >
+          {showOriginal ? "Show translation" : "Show original"}
+        </button>
+        <button onClick={onClose} className="text-sm text-gray-700 hover:text-black" title="Stop translating">
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
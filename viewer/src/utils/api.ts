@@ -0,0 +1,221 @@
+import type { DobbyModel, Message } from "./fireworks";
+import type { DemoDocument } from "./demo";
+import {
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  errorFromResponse,
+  isTransient,
+} from "./apiErrors";
+
+// Client-side wrappers around the app's own /api routes (and the PDF backend).
+// API keys stay on the server. Failures are thrown as the typed errors in
+// apiErrors; transient ones are retried with backoff before they reach the UI.
+
+// Retries after the first attempt, and the delay before the first retry (doubling after)
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 800;
+// A Retry-After longer than this is reported rather than waited out
+const MAX_RETRY_WAIT_MS = 10_000;
+// Until the response starts; a streamed reply may then take as long as it needs
+const CHAT_TIMEOUT_MS = 60_000;
+const SPEECH_TIMEOUT_MS = 30_000;
+// Marker can take minutes on a long PDF
+const PROCESS_PDF_TIMEOUT_MS = 5 * 60_000;
+// Recorded demo documents are read from the server's disk
+const DEMO_FILE_TIMEOUT_MS = 30_000;
+
+const PDF_BACKEND_URL = "http://localhost:8000";
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * `fetch` that gives up after `timeoutMs` and throws typed errors for failed
+ * responses, retrying rate limits, timeouts and server errors. Aborting
+ * `signal` cancels it at any point without a retry.
+ */
+async function request(
+  url: string,
+  init: RequestInit & { signal?: AbortSignal },
+  options: { label: string; timeoutMs: number; retries?: number }
+): Promise<Response> {
+  const { label, timeoutMs, retries = MAX_RETRIES } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest(url, init, label, timeoutMs);
+    } catch (error) {
+      if (init.signal?.aborted || !isTransient(error) || attempt >= retries) throw error;
+      const wait = error instanceof RateLimitError && error.retryAfterMs !== null
+        ? error.retryAfterMs
+        : RETRY_BASE_DELAY_MS * 2 ** attempt;
+      if (wait > MAX_RETRY_WAIT_MS) throw error;
+      await sleep(wait, init.signal);
+    }
+  }
+}
+
+async function attemptRequest(
+  url: string,
+  init: RequestInit & { signal?: AbortSignal },
+  label: string,
+  timeoutMs: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  // The caller's signal stays linked for the life of the body, so aborting also stops a stream
+  const signal = init.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal;
+
+  try {
+    const response = await fetch(url, { ...init, signal });
+    if (!response.ok) throw await errorFromResponse(response, label);
+    return response;
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    if (controller.signal.aborted) {
+      throw new TimeoutError(`${label} error: no response after ${Math.round(timeoutMs / 1000)}s`);
+    }
+    // fetch rejects with a TypeError when the server cannot be reached at all
+    if (error instanceof TypeError) throw new ServerError(`${label} error: ${error.message}`, null);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function postChat(
+  messages: Message[],
+  model: DobbyModel,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> {
+  return request(
+    "/api/chat",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ messages, model, stream }),
+      signal,
+    },
+    { label: "Chat", timeoutMs: CHAT_TIMEOUT_MS }
+  );
+}
+
+// Get a full completion from the given Dobby
+export async function callChat(
+  messages: Message[],
+  model: DobbyModel = "leashed",
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await postChat(messages, model, false, signal);
+  const data = await response.json();
+  return data.content ?? "(No response)";
+}
+
+// Stream a completion from the given Dobby, yielding text deltas as they arrive
+export async function* streamChat(
+  messages: Message[],
+  model: DobbyModel = "leashed",
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const response = await postChat(messages, model, true, signal);
+  if (!response.body) throw new Error("Chat error: empty stream");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      if (text) yield text;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface DemoStatus {
+  enabled: boolean;
+  documents: DemoDocument[];
+}
+
+let demoStatus: Promise<DemoStatus> | null = null;
+
+// Whether the server runs in demo mode, asked once per page load
+export function getDemoStatus(): Promise<DemoStatus> {
+  demoStatus ??= fetch("/api/demo")
+    .then((response) => (response.ok ? response.json() : { enabled: false, documents: [] }))
+    .catch((error) => {
+      console.error("Error checking for demo mode:", error);
+      return { enabled: false, documents: [] };
+    });
+  return demoStatus;
+}
+
+// The recorded Marker response for a PDF in demo mode, in the shape processPdf returns
+export async function fetchRecording(docHash: string): Promise<unknown> {
+  const response = await request(
+    `/api/demo/${docHash}`,
+    {},
+    { label: "Recorded document", timeoutMs: DEMO_FILE_TIMEOUT_MS, retries: 0 }
+  );
+  return response.json();
+}
+
+export async function fetchDemoPdf(doc: DemoDocument): Promise<File> {
+  const response = await request(
+    `/api/demo/${doc.docHash}/pdf`,
+    {},
+    { label: "Demo document", timeoutMs: DEMO_FILE_TIMEOUT_MS, retries: 0 }
+  );
+  // Named after its title; the stored copy has an upload ID for a name
+  return new File([await response.blob()], `${doc.title}.pdf`, { type: "application/pdf" });
+}
+
+// Whether the server has an ElevenLabs key; without one, speech falls back to the browser
+export async function checkSpeechAvailable(): Promise<boolean> {
+  const response = await fetch("/api/tts");
+  if (!response.ok) return false;
+  const data = await response.json().catch(() => null);
+  return data?.available === true;
+}
+
+// Synthesize speech for `text` with an ElevenLabs voice, returning the MP3 audio
+export async function fetchSpeech(
+  text: string,
+  voiceId: string,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const response = await request(
+    "/api/tts",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text, voiceId }),
+      signal,
+    },
+    { label: "Text-to-speech", timeoutMs: SPEECH_TIMEOUT_MS }
+  );
+  return response.blob();
+}
+
+// Send a PDF to the Marker backend, returning its unvalidated JSON response
+export async function processPdf(file: File, signal?: AbortSignal): Promise<unknown> {
+  const formData = new FormData();
+  formData.append("file", file);
+  const response = await request(
+    `${PDF_BACKEND_URL}/api/process-pdf`,
+    { method: "POST", body: formData, signal },
+    // A failed Marker run is slow to repeat; the pdf.js fallback takes over instead
+    { label: "PDF processing", timeoutMs: PROCESS_PDF_TIMEOUT_MS, retries: 0 }
+  );
+  return response.json();
+}
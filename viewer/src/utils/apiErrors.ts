@@ -0,0 +1,101 @@
+// Typed failures from the app's /api routes and the PDF backend, so callers can
+// tell a bad key from a busy server and decide whether trying again can help.
+
+export class ApiError extends Error {
+  // HTTP status, or null when no response arrived
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+// The server (or the provider behind it) rejected the API key
+export class AuthError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "AuthError";
+  }
+}
+
+// The server is missing configuration for this feature, e.g. an API key; retrying won't help
+export class ConfigError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "ConfigError";
+  }
+}
+
+// The `code` a route sends with a 503 when it is not configured, see ConfigError
+export const NOT_CONFIGURED = "not_configured";
+
+export class RateLimitError extends ApiError {
+  // From the Retry-After header, when the server sent one
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null) {
+    super(message, 429);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+// A 5xx response, or no response at all because the server could not be reached
+export class ServerError extends ApiError {
+  constructor(message: string, status: number | null) {
+    super(message, status);
+    this.name = "ServerError";
+  }
+}
+
+// Build the matching error for a failed response, using its `error` or `detail` field
+export async function errorFromResponse(response: Response, label: string): Promise<ApiError> {
+  const data = await response.json().catch(() => null);
+  const detail = data?.error ?? data?.detail ?? response.statusText;
+  const message = `${label} error: ${response.status} - ${detail}`;
+
+  if (response.status === 401 || response.status === 403) return new AuthError(message, response.status);
+  if (data?.code === NOT_CONFIGURED) return new ConfigError(message, response.status);
+  if (response.status === 429) {
+    const seconds = Number(response.headers.get("Retry-After"));
+    return new RateLimitError(message, Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null);
+  }
+  if (response.status === 408 || response.status === 504) return new TimeoutError(message);
+  if (response.status >= 500) return new ServerError(message, response.status);
+  return new ApiError(message, response.status);
+}
+
+// Whether the same request might succeed if sent again
+export function isTransient(error: unknown): boolean {
+  return error instanceof RateLimitError || error instanceof TimeoutError || error instanceof ServerError;
+}
+
+// A short explanation for an error banner
+export function describeError(error: unknown): string {
+  if (error instanceof AuthError) {
+    return "The server's API key was rejected or is missing. Check the keys in .env.local.";
+  }
+  if (error instanceof ConfigError) {
+    return "The server isn't set up for this. Check the keys in .env.local.";
+  }
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : "";
+    return `Too many requests.${wait}`;
+  }
+  if (error instanceof TimeoutError) return "The request timed out. The server may be busy.";
+  if (error instanceof ServerError) {
+    return error.status === null
+      ? "Could not reach the server. Check that it is running."
+      : `The server ran into a problem (${error.status}).`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import type { Block } from "./documentModel";
+import { buildBlockContext, findSectionHeader } from "./blockContext";
+import { withHighlightBlocks } from "./highlightStore";
+
+function block(id: string, blockType: string, html: string, hierarchy: { [level: string]: string }): Block {
+  return {
+    id,
+    type: blockType,
+    block_type: blockType,
+    html,
+    polygon: [[0, 0], [100, 0], [100, 100], [0, 100]],
+    section_hierarchy: hierarchy,
+    pageIndex: 0,
+  };
+}
+
+const methods = { "1": "/page/0/SectionHeader/0" };
+const setup = { "1": "/page/0/SectionHeader/0", "2": "/page/0/SectionHeader/1" };
+
+// The closing text is back in "Methods" after the "Setup" subsection, so the
+// nearest header before it is not its section
+const blocks = [
+  block("/page/0/Page/0", "Page", "", {}),
+  block("/page/0/SectionHeader/0", "SectionHeader", "<h1>Methods</h1>", methods),
+  block("/page/0/SectionHeader/1", "SectionHeader", "<h2>Setup</h2>", setup),
+  block("/page/0/Text/2", "Text", "<p>We train on one GPU.</p>", setup),
+  block("/page/0/Text/3", "Text", "<p>Overall, the method is simple.</p>", methods),
+];
+
+describe("findSectionHeader", () => {
+  it("picks the innermost section from the hierarchy, not the nearest header", () => {
+    expect(findSectionHeader(blocks[3], blocks)?.id).toBe("/page/0/SectionHeader/1");
+    expect(findSectionHeader(blocks[4], blocks)?.id).toBe("/page/0/SectionHeader/0");
+  });
+
+  it("finds no section for blocks outside every section", () => {
+    expect(findSectionHeader(blocks[0], blocks)).toBeNull();
+  });
+
+  it("names the section in a chat's context", () => {
+    expect(buildBlockContext([blocks[4]], blocks)).toMatch(/in the section "Methods"\./);
+  });
+
+  it("puts a highlight in the section of the block it falls in", () => {
+    const highlight = {
+      id: "h1",
+      docHash: "doc",
+      text: "one GPU",
+      note: "",
+      areas: [{ pageIndex: 0, left: 10, top: 10, width: 20, height: 5 }],
+      createdAt: 0,
+    };
+    const withHighlight = withHighlightBlocks(blocks.slice(0, 4), [highlight]);
+    const standIn = withHighlight[withHighlight.length - 1];
+
+    expect(findSectionHeader(standIn, withHighlight)?.id).toBe("/page/0/SectionHeader/1");
+  });
+});
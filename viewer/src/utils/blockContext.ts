@@ -0,0 +1,255 @@
+import { type Block, indexBlocks } from "./documentModel";
+import { stripHtml } from "./fireworks";
+
+// What Dobby is looking at decides how the block is described and which presets apply
+export type BlockKind = "text" | "table" | "equation" | "figure";
+
+// Block types Dobby can chat about, by kind
+const BLOCK_KINDS: { [blockType: string]: BlockKind } = {
+  text: "text",
+  listitem: "text",
+  textinlinemath: "text",
+  caption: "text",
+  footnote: "text",
+  table: "table",
+  equation: "equation",
+  figure: "figure",
+  picture: "figure",
+};
+
+export const BLOCK_PRESETS: Record<BlockKind, { label: string; prompt: string }[]> = {
+  text: [
+    { label: "Summarize", prompt: "Summarize this briefly" },
+    { label: "Teach me", prompt: "Teach this to me" },
+  ],
+  table: [
+    { label: "Walk me through", prompt: "Walk me through this table: what do its rows and columns show?" },
+    { label: "Key takeaway", prompt: "What is the key takeaway of this table?" },
+  ],
+  equation: [
+    { label: "Term by term", prompt: "Explain this equation term by term" },
+    { label: "Intuition", prompt: "Give me the intuition behind this equation" },
+  ],
+  figure: [
+    { label: "Explain figure", prompt: "Explain what this figure shows" },
+    { label: "What to notice", prompt: "What should I notice in this figure?" },
+  ],
+};
+
+// Structural blocks that carry no reading text of their own
+const NON_CONTENT_TYPES = [
+  "document",
+  "page",
+  "pageheader",
+  "pagefooter",
+  "listgroup",
+  "figuregroup",
+  "tablegroup",
+  "picturegroup",
+];
+
+// How much of each neighboring passage to include
+const NEIGHBOR_CHAR_LIMIT = 600;
+
+export function blockKind(block: Block): BlockKind | null {
+  return BLOCK_KINDS[block.block_type.toLowerCase()] ?? null;
+}
+
+// Whether Dobby can chat about this block
+export function isChatBlock(block: Block): boolean {
+  return blockKind(block) !== null;
+}
+
+// Presets for a selection: kind-specific when every block is the same kind
+export function presetsFor(selection: Block[]): { label: string; prompt: string }[] {
+  const kinds = new Set(selection.map(blockKind));
+  const [kind] = [...kinds];
+  return kinds.size === 1 && kind ? BLOCK_PRESETS[kind] : BLOCK_PRESETS.text;
+}
+
+export function isContentBlock(block: Block): boolean {
+  return !NON_CONTENT_TYPES.includes(block.block_type.toLowerCase());
+}
+
+// Stable key for a selection: the block ID, or the sorted IDs of a multi-block selection
+export function selectionKey(selection: Block[]): string {
+  return selection.map((b) => b.id).sort().join("+");
+}
+
+// Sort a selection into the document's reading order (the order of the flattened blocks)
+export function inReadingOrder(selection: Block[], allBlocks: Block[]): Block[] {
+  const order = new Map(allBlocks.map((b, i) => [b.id, i]));
+  return [...selection].sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+}
+
+// Innermost section the block sits under, from Marker's section hierarchy
+export function findSectionHeader(block: Block, allBlocks: Block[]): Block | null {
+  return indexBlocks(allBlocks).sectionAncestry(block.id).at(-1) ?? null;
+}
+
+// Plain text of a block, whitespace collapsed
+export function stripBlockText(block: Block): string {
+  return stripHtml(block.html ?? "").replace(/\s+/g, " ").trim();
+}
+
+function parseHtml(html: string): HTMLElement {
+  return new DOMParser().parseFromString(html, "text/html").body;
+}
+
+// Text of a block with Marker's <math> elements written as $inline$ / $$display$$ LaTeX
+export function htmlToTextWithLatex(html: string): string {
+  const body = parseHtml(html);
+  body.querySelectorAll("math").forEach((math) => {
+    const delimiter = math.getAttribute("display") === "block" ? "$$" : "$";
+    math.replaceWith(`${delimiter}${math.textContent?.trim() ?? ""}${delimiter}`);
+  });
+  return (body.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+// Render an HTML table as a Markdown grid, treating the first row as the header
+export function tableToMarkdown(html: string): string {
+  const rows = Array.from(parseHtml(html).querySelectorAll("tr")).map((tr) =>
+    Array.from(tr.querySelectorAll("th, td")).map((cell) =>
+      (cell.textContent ?? "").replace(/\s+/g, " ").trim().replace(/\|/g, "\\|")
+    )
+  );
+  if (rows.length === 0) return stripHtml(html).trim();
+
+  const width = Math.max(...rows.map((r) => r.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  return [line(rows[0]), line(Array(width).fill("---")), ...rows.slice(1).map(line)].join("\n");
+}
+
+// Caption belonging to a figure or table: Marker places it right next to it on the same page
+export function findCaption(block: Block, allBlocks: Block[]): Block | null {
+  const index = allBlocks.findIndex((b) => b.id === block.id);
+  if (index < 0) return null;
+  for (const offset of [1, 2, -1, -2]) {
+    const candidate = allBlocks[index + offset];
+    if (
+      candidate?.block_type === "Caption" &&
+      (candidate.pageIndex ?? 0) === (block.pageIndex ?? 0)
+    ) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Marker names extracted images after the block path, e.g. _page_0_Figure_6.jpeg
+function markerImageName(blockId: string): string {
+  return `${blockId.replace(/\//g, "_")}.jpeg`;
+}
+
+/**
+ * Data URL of a block's extracted image, looked up on the block itself first and
+ * then in the document-level `images` map returned by the backend.
+ */
+export function getBlockImage(
+  block: Block,
+  documentImages: { [name: string]: string }
+): string | null {
+  const data = block.images?.[block.id] ?? documentImages[markerImageName(block.id)];
+  return data ? `data:image/jpeg;base64,${data}` : null;
+}
+
+// Describe one selected block for the model, according to its kind
+function describeBlock(block: Block, allBlocks: Block[]): string {
+  const caption = findCaption(block, allBlocks);
+  const captionLine = caption ? `\nCaption: ${stripBlockText(caption)}` : "";
+
+  switch (blockKind(block)) {
+    case "table":
+      return `Table (Markdown):\n${tableToMarkdown(block.html)}${captionLine}`;
+    case "equation":
+      return `Equation (LaTeX):\n${htmlToTextWithLatex(block.html)}`;
+    case "figure":
+      return (
+        `A ${block.block_type.toLowerCase()} the user is looking at. You cannot see the image, ` +
+        `so rely on its caption and the surrounding text.${captionLine || "\n(No caption.)"}`
+      );
+    default:
+      return htmlToTextWithLatex(block.html);
+  }
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit)}…` : text;
+}
+
+function neighborText(allBlocks: Block[], from: number, step: 1 | -1): string | null {
+  for (let i = from + step; i >= 0 && i < allBlocks.length; i += step) {
+    const block = allBlocks[i];
+    if (!isContentBlock(block) || block.block_type === "SectionHeader") continue;
+    const text = stripBlockText(block);
+    if (text) return truncate(text, NEIGHBOR_CHAR_LIMIT);
+  }
+  return null;
+}
+
+function describePages(selection: Block[]): string {
+  const pages = [...new Set(selection.map((b) => (b.pageIndex ?? 0) + 1))].sort((a, b) => a - b);
+  return pages.length === 1 ? `page ${pages[0]}` : `pages ${pages.join(", ")}`;
+}
+
+/**
+ * Build the system message for a chat about `selection`: where it sits in the
+ * document (page, section), the passages around it, and the selected text itself.
+ */
+export function buildBlockContext(selection: Block[], allBlocks: Block[]): string {
+  const ordered = inReadingOrder(selection, allBlocks);
+  const firstIndex = allBlocks.findIndex((b) => b.id === ordered[0]?.id);
+  const lastIndex = allBlocks.findIndex((b) => b.id === ordered[ordered.length - 1]?.id);
+
+  const section = ordered[0] ? findSectionHeader(ordered[0], allBlocks) : null;
+  const sectionTitle = section ? stripBlockText(section) : null;
+
+  const parts: string[] = [
+    `The user is reading ${describePages(ordered)} of the document` +
+      (sectionTitle ? `, in the section "${sectionTitle}".` : "."),
+  ];
+
+  const previous = firstIndex >= 0 ? neighborText(allBlocks, firstIndex, -1) : null;
+  if (previous) parts.push(`Previous passage:\n${previous}`);
+
+  const selected = ordered.map((b) => describeBlock(b, allBlocks)).join("\n\n");
+  parts.push(
+    `${ordered.length > 1 ? "Selected passages" : "Selected passage"}:\n${selected}`
+  );
+
+  const next = lastIndex >= 0 ? neighborText(allBlocks, lastIndex, 1) : null;
+  if (next) parts.push(`Next passage:\n${next}`);
+
+  parts.push("Use this when answering questions, focusing on the selected text.");
+  return parts.join("\n\n");
+}
+
+// Citations in document answers name a block ID in square brackets, e.g. [/page/3/Text/2]
+const CITATION_PATTERN = /\[(\/page\/\d+\/[A-Za-z]+\/\d+)\]/g;
+
+// Turn an answer's citations into Markdown links to "#cite=<block ID>", for MarkdownMessage
+export function linkCitations(answer: string): string {
+  return answer.replace(CITATION_PATTERN, (_, id: string) => `[${id}](#cite=${encodeURIComponent(id)})`);
+}
+
+/**
+ * Build the system message for a whole-document question from the retrieved
+ * passages, each labelled with its block ID so Dobby can cite it.
+ */
+export function buildDocumentContext(passages: Block[]): string {
+  if (passages.length === 0) {
+    return "No passages of the document matched the user's question. " +
+      "Say so, and answer only if you can do it without the document.";
+  }
+
+  const quoted = passages.map(
+    (b) => `[${b.id}] (page ${(b.pageIndex ?? 0) + 1})\n${stripBlockText(b)}`
+  );
+  return [
+    "The user is asking about the document they are reading. These are the most relevant passages:",
+    ...quoted,
+    "Answer using only these passages. After each claim, cite the passage it comes from " +
+      "by writing its ID in square brackets exactly as shown, e.g. [/page/3/Text/2].",
+  ].join("\n\n");
+}
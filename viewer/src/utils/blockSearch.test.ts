@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { Block } from "./documentModel";
+import { searchBlocks } from "./blockSearch";
+
+function block(id: string, text: string, blockType = "Text"): Block {
+  return { id, type: blockType, block_type: blockType, html: `<p>${text}</p>`, polygon: [], pageIndex: 0 };
+}
+
+const blocks = [
+  block("/page/0/Text/0", "Written in C++ and C, e.g. the parser."),
+  block("/page/0/Text/1", "Compare f(x) with g(x) and (x) alone; see the C++17 notes."),
+  block("/page/0/Text/2", "A transformer transforms; the Transformer is the model."),
+  block("/page/0/PageFooter/3", "C++ footer", "PageFooter"),
+];
+
+const ids = (query: string, options = { matchCase: false, wholeWord: true }) =>
+  searchBlocks(blocks, query, options).map((hit) => hit.block.id);
+
+describe("searchBlocks", () => {
+  it("matches substrings unless whole words are asked for", () => {
+    expect(ids("transform", { matchCase: false, wholeWord: false })).toEqual(["/page/0/Text/2"]);
+    expect(ids("transform")).toEqual([]);
+    expect(searchBlocks(blocks, "transformer", { matchCase: false, wholeWord: true })[0].matchCount).toBe(2);
+  });
+
+  it("respects case when asked", () => {
+    const hits = searchBlocks(blocks, "Transformer", { matchCase: true, wholeWord: true });
+    expect(hits[0].matchCount).toBe(1);
+    expect(hits[0].snippet.match).toBe("Transformer");
+  });
+
+  it("finds whole-word queries that start or end with punctuation", () => {
+    // "C++17" continues with a digit, so only the first block has C++ as a word
+    expect(ids("C++")).toEqual(["/page/0/Text/0"]);
+    expect(ids("e.g.")).toEqual(["/page/0/Text/0"]);
+    expect(searchBlocks(blocks, "(x)", { matchCase: false, wholeWord: true })[0].matchCount).toBe(1);
+  });
+
+  it("skips structural blocks and empty queries", () => {
+    expect(ids("footer", { matchCase: false, wholeWord: false })).toEqual([]);
+    expect(ids("   ")).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { Block } from "./documentModel";
+import { isContentBlock, stripBlockText } from "./blockContext";
+
+export interface SearchOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchHit {
+  block: Block;
+  // Text around the first match in the block, split so the match can be emphasized
+  snippet: { before: string; match: string; after: string };
+  matchCount: number;
+}
+
+// Characters of context shown on each side of a match
+const SNIPPET_CONTEXT = 40;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole words are bounded by anything but a letter, digit or underscore. Unlike \b
+// this also holds for queries that start or end with punctuation, e.g. "C++" or "e.g."
+const WORD_BEFORE = "(?<![\\p{L}\\p{N}_])";
+const WORD_AFTER = "(?![\\p{L}\\p{N}_])";
+
+export function buildSearchPattern(query: string, { matchCase, wholeWord }: SearchOptions): RegExp | null {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+  const source = escapeRegExp(trimmed);
+  return new RegExp(wholeWord ? `${WORD_BEFORE}${source}${WORD_AFTER}` : source, matchCase ? "gu" : "giu");
+}
+
+// Find every content block whose text matches, in reading order
+export function searchBlocks(blocks: Block[], query: string, options: SearchOptions): SearchHit[] {
+  const pattern = buildSearchPattern(query, options);
+  if (!pattern) return [];
+
+  const hits: SearchHit[] = [];
+  for (const block of blocks) {
+    if (!isContentBlock(block)) continue;
+    const text = stripBlockText(block);
+    const matches = [...text.matchAll(pattern)];
+    if (matches.length === 0) continue;
+
+    const first = matches[0];
+    const start = first.index ?? 0;
+    const end = start + first[0].length;
+    const before = text.slice(Math.max(0, start - SNIPPET_CONTEXT), start);
+    const after = text.slice(end, end + SNIPPET_CONTEXT);
+
+    hits.push({
+      block,
+      snippet: {
+        before: (start > SNIPPET_CONTEXT ? "…" : "") + before,
+        match: first[0],
+        after: after + (end + SNIPPET_CONTEXT < text.length ? "…" : ""),
+      },
+      matchCount: matches.length,
+    });
+  }
+  return hits;
+}
@@ -0,0 +1,78 @@
+// Small in-memory BM25 index for lexical retrieval over a document's blocks
+
+export interface BM25Document {
+  id: string;
+  text: string;
+}
+
+export interface BM25Hit {
+  id: string;
+  score: number;
+}
+
+export interface BM25Index {
+  search(query: string, limit?: number): BM25Hit[];
+}
+
+// Standard BM25 parameters: term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from",
+  "how", "in", "is", "it", "of", "on", "or", "that", "the", "this", "to", "was",
+  "what", "when", "where", "which", "who", "why", "with",
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (token) => !STOPWORDS.has(token)
+  );
+}
+
+export function createBM25Index(documents: BM25Document[]): BM25Index {
+  const termFrequencies = documents.map((doc) => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(doc.text)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = termFrequencies.map((counts) =>
+    [...counts.values()].reduce((sum, n) => sum + n, 0)
+  );
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / (documents.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termFrequencies) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    search(query, limit = 5) {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) return [];
+
+      const hits: BM25Hit[] = [];
+      documents.forEach((doc, i) => {
+        let score = 0;
+        for (const term of terms) {
+          const tf = termFrequencies[i].get(term);
+          if (!tf) continue;
+          const norm = K1 * (1 - B + (B * lengths[i]) / (averageLength || 1));
+          score += idf(term) * ((tf * (K1 + 1)) / (tf + norm));
+        }
+        if (score > 0) hits.push({ id: doc.id, score });
+      });
+
+      return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
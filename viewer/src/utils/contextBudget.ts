@@ -0,0 +1,133 @@
+import type { DobbyModel, Message } from "./fireworks";
+
+// Token budgeting for the chats. The Dobby models are Llama 3.1 8B deployments
+// with an 8K context, so long chats fold their older turns into a rolling
+// summary instead of resending the whole history. Sizes are estimated from
+// character counts and err high; the context message (the selected block, or a
+// document question's passages) is always sent in full.
+
+export const CONTEXT_WINDOW_TOKENS = 8192;
+// Room kept free for the reply and the persona's instructions
+const RESERVED_TOKENS = 1536;
+export const PROMPT_BUDGET_TOKENS = CONTEXT_WINDOW_TOKENS - RESERVED_TOKENS;
+
+// Latest chat messages that are never folded into the summary
+const RECENT_MESSAGES = 4;
+// Llama tokenizers average about four characters per English token; assume fewer
+const CHARS_PER_TOKEN = 3.5;
+// Chat-template framing around every message
+const MESSAGE_OVERHEAD_TOKENS = 6;
+
+export const SUMMARY_MODEL: DobbyModel = "leashed";
+
+export function estimateTokens(messages: Message[]): number {
+  return messages.reduce(
+    (total, m) => total + MESSAGE_OVERHEAD_TOKENS + Math.ceil(m.content.length / CHARS_PER_TOKEN),
+    0
+  );
+}
+
+export function isRollingSummary(message: Message): boolean {
+  return message.role === "system" && message.summary === true;
+}
+
+// A turn the model should see: not a summary or the block context, and not a failed message
+function isChatTurn(message: Message): boolean {
+  return message.role !== "system" && !message.failed;
+}
+
+// Index of the newest rolling summary, or -1 if nothing has been condensed yet
+export function latestSummaryIndex(messages: Message[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (isRollingSummary(messages[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * What the model is sent for a chat whose first message is its context:
+ * that context with the latest summary appended, then only the turns after the
+ * summary. Turns before it stay in the chat for the reader but are not resent.
+ */
+export function promptMessages(messages: Message[]): Message[] {
+  const [system, ...rest] = messages;
+  const summaryIndex = latestSummaryIndex(messages);
+  if (summaryIndex < 0) return [system, ...rest.filter(isChatTurn)];
+
+  return [
+    {
+      role: "system",
+      content: `${system.content}\n\nSummary of the conversation so far:\n${messages[summaryIndex].content}`,
+    },
+    ...messages.slice(summaryIndex + 1).filter(isChatTurn),
+  ];
+}
+
+export interface CondensePlan {
+  // Where the new summary goes: right after the turns it covers
+  insertAt: number;
+  previousSummary: Message | null;
+  turns: Message[];
+}
+
+/**
+ * Turns to fold into a new summary when the prompt is over budget: everything
+ * since the last summary except the most recent messages. Null when the prompt
+ * fits or there is nothing old enough to fold.
+ */
+export function planCondense(messages: Message[], budget = PROMPT_BUDGET_TOKENS): CondensePlan | null {
+  if (estimateTokens(promptMessages(messages)) <= budget) return null;
+
+  const summaryIndex = latestSummaryIndex(messages);
+  const start = summaryIndex < 0 ? 1 : summaryIndex + 1;
+  const insertAt = messages.length - RECENT_MESSAGES;
+  if (insertAt <= start) return null;
+
+  return {
+    insertAt,
+    previousSummary: summaryIndex < 0 ? null : messages[summaryIndex],
+    turns: messages.slice(start, insertAt).filter(isChatTurn),
+  };
+}
+
+// Request for a summary that carries the previous one forward
+export function summaryRequestMessages(plan: CondensePlan): Message[] {
+  const transcript = plan.turns
+    .map((m) => `${m.role === "user" ? "Reader" : "Dobby"}: ${m.content.trim()}`)
+    .join("\n\n");
+
+  return [
+    {
+      role: "system",
+      content:
+        "You condense a conversation between a reader and an AI tutor about what they are reading, " +
+        "so it can continue without the full history.",
+    },
+    {
+      role: "user",
+      content:
+        (plan.previousSummary ? `Summary so far:\n${plan.previousSummary.content}\n\n` : "") +
+        `Conversation to add:\n\n${transcript}\n\n` +
+        "Write one updated summary in under 200 words. Keep the reader's questions, the answers " +
+        "given, and anything they said they found confusing. Reply with only the summary.",
+    },
+  ];
+}
+
+export function rollingSummary(content: string): Message {
+  return { role: "system", content: content.trim(), summary: true };
+}
+
+export function insertSummary(messages: Message[], summary: Message, insertAt: number): Message[] {
+  return [...messages.slice(0, insertAt), summary, ...messages.slice(insertAt)];
+}
+
+/**
+ * Last resort when the prompt is still too long, e.g. the summary could not be
+ * written: drop the oldest turns, keeping the block context and the latest message.
+ */
+export function trimToBudget(prompt: Message[], budget = PROMPT_BUDGET_TOKENS): Message[] {
+  const [system, ...turns] = prompt;
+  while (turns.length > 1 && estimateTokens([system, ...turns]) > budget) turns.shift();
+  return [system, ...turns];
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { DOCUMENT_CHAT_KEY, chattedBlockCount } from "./conversationStore";
+
+describe("chattedBlockCount", () => {
+  it("counts each block once across the selections that include it", () => {
+    expect(
+      chattedBlockCount([
+        "/page/0/Text/1",
+        "/page/0/Text/1+/page/0/Text/2",
+        "/page/0/Text/2+/page/1/Table/0",
+        "highlight:abc",
+      ])
+    ).toBe(4);
+  });
+
+  it("does not count the document chat", () => {
+    expect(chattedBlockCount([DOCUMENT_CHAT_KEY])).toBe(0);
+    expect(chattedBlockCount([DOCUMENT_CHAT_KEY, "/page/2/Text/3"])).toBe(1);
+  });
+});
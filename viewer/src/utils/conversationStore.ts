@@ -0,0 +1,83 @@
+import type { Message } from "./fireworks";
+import { openDatabase, requestToPromise, transactionDone } from "./db";
+
+// Chat turns per block, keyed by document hash so identical Marker block IDs
+// in different PDFs never share a conversation. `blockId` is the selection key:
+// a single block ID, or the joined IDs of a multi-block selection. System
+// messages are not stored; they are rebuilt from the blocks each time a chat opens.
+
+export type Conversations = { [blockId: string]: Message[] };
+
+// Key of the whole-document chat, stored alongside the block chats
+export const DOCUMENT_CHAT_KEY = "__document__";
+
+interface ConversationRecord {
+  docHash: string;
+  blockId: string;
+  messages: Message[];
+  updatedAt: number;
+}
+
+export async function loadConversations(docHash: string): Promise<Conversations> {
+  const db = await openDatabase();
+  const tx = db.transaction("conversations", "readonly");
+  const records = await requestToPromise<ConversationRecord[]>(
+    tx.objectStore("conversations").index("docHash").getAll(docHash)
+  );
+
+  const conversations: Conversations = {};
+  for (const record of records) {
+    conversations[record.blockId] = record.messages;
+  }
+  return conversations;
+}
+
+export async function saveConversation(
+  docHash: string,
+  blockId: string,
+  messages: Message[]
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("conversations", "readwrite");
+  const record: ConversationRecord = { docHash, blockId, messages, updatedAt: Date.now() };
+  tx.objectStore("conversations").put(record);
+  await transactionDone(tx);
+}
+
+export async function deleteConversation(docHash: string, blockId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("conversations", "readwrite");
+  tx.objectStore("conversations").delete([docHash, blockId]);
+  await transactionDone(tx);
+}
+
+export async function deleteDocumentConversations(docHash: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("conversations", "readwrite");
+  const store = tx.objectStore("conversations");
+  const keys = await requestToPromise(store.index("docHash").getAllKeys(docHash));
+  for (const key of keys) {
+    store.delete(key);
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * How many distinct blocks the given conversation keys cover. A multi-block
+ * selection counts each of its blocks, and a block chatted about alone and as
+ * part of a selection counts once. The document chat is not a block.
+ */
+export function chattedBlockCount(keys: string[]): number {
+  const ids = new Set(keys.filter((key) => key !== DOCUMENT_CHAT_KEY).flatMap((key) => key.split("+")));
+  return ids.size;
+}
+
+// How many blocks in the document have a chat, see chattedBlockCount
+export async function countChattedBlocks(docHash: string): Promise<number> {
+  const db = await openDatabase();
+  const tx = db.transaction("conversations", "readonly");
+  const keys = await requestToPromise(
+    tx.objectStore("conversations").index("docHash").getAllKeys(docHash)
+  );
+  return chattedBlockCount(keys.map((key) => (key as [string, string])[1]));
+}
@@ -0,0 +1,84 @@
+// Shared IndexedDB handle for everything the viewer persists in the browser.
+// Each schema change bumps DB_VERSION and adds an `oldVersion < n` step below.
+
+const DB_NAME = "read-with-dobby";
+const DB_VERSION = 7;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const conversations = db.createObjectStore("conversations", {
+            keyPath: ["docHash", "blockId"],
+          });
+          conversations.createIndex("docHash", "docHash");
+        }
+        if (event.oldVersion < 2) {
+          const highlights = db.createObjectStore("highlights", { keyPath: "id" });
+          highlights.createIndex("docHash", "docHash");
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore("personas", { keyPath: "id" });
+        }
+        if (event.oldVersion < 4) {
+          const flashcards = db.createObjectStore("flashcards", { keyPath: "id" });
+          flashcards.createIndex("docHash", "docHash");
+        }
+        if (event.oldVersion < 5) {
+          // Library metadata is listed often; the PDF and its blocks only load on open
+          db.createObjectStore("documents", { keyPath: "docHash" });
+          db.createObjectStore("documentFiles", { keyPath: "docHash" });
+        }
+        if (event.oldVersion < 6) {
+          const progress = db.createObjectStore("readingProgress", {
+            keyPath: ["docHash", "blockId"],
+          });
+          progress.createIndex("docHash", "docHash");
+        }
+        if (event.oldVersion < 7) {
+          const translations = db.createObjectStore("translations", {
+            keyPath: ["docHash", "language", "blockId"],
+          });
+          translations.createIndex("docLanguage", ["docHash", "language"]);
+          db.createObjectStore("glossaries", { keyPath: ["docHash", "language"] });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// SHA-256 of the file contents as hex — the same key the backend uses for its Marker cache
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,105 @@
+import type { DobbyModel, Message } from "./fireworks";
+import type { Persona } from "./personas";
+
+export interface DebateConfig {
+  // The claim being argued; the defender opens and the challenger answers
+  topic: string;
+  // Each round is one turn per side
+  rounds: number;
+  // Persona IDs, from the built-in Dobbys or the user's own personas
+  defenderId: string;
+  challengerId: string;
+}
+
+// The personas taking part, resolved from the config's IDs
+export interface DebateSides {
+  defender: Persona;
+  challenger: Persona;
+}
+
+export const MAX_DEBATE_ROUNDS = 5;
+
+// Used when the user leaves the claim empty
+export const DEFAULT_DEBATE_TOPIC = "The main claim made in this passage holds up";
+
+// The moderator runs on the leashed model, which stays closer to neutral
+export const MODERATOR_MODEL: DobbyModel = "leashed";
+
+// The visible user turn that records how the debate was set up
+export function debateOpening({ topic, rounds }: DebateConfig, { defender, challenger }: DebateSides): Message {
+  return {
+    role: "user",
+    content:
+      `Debate: "${topic}" (${rounds} round${rounds === 1 ? "" : "s"}, ` +
+      `${defender.name} defends the claim, ${challenger.name} challenges it)`,
+  };
+}
+
+// The side that speaks next: the defender opens, then the two alternate
+export function nextSpeaker(sides: DebateSides, turnsSoFar: number): Persona {
+  return turnsSoFar % 2 === 0 ? sides.defender : sides.challenger;
+}
+
+// Turns are labeled with the side as well, in case both personas share a name
+function transcript(sides: DebateSides, turns: Message[]): string {
+  return turns
+    .map((turn, i) => {
+      const speaker = nextSpeaker(sides, i);
+      return `${speaker.name} (${speaker === sides.defender ? "defending" : "challenging"}): ${turn.content.trim()}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Request for the next debate turn. Both sides share one assistant role, so the
+ * exchange so far is passed as a labeled transcript rather than as chat turns.
+ */
+export function debateTurnMessages(
+  system: Message,
+  config: DebateConfig,
+  sides: DebateSides,
+  turns: Message[]
+): Message[] {
+  const speaker = nextSpeaker(sides, turns.length);
+  const defending = speaker === sides.defender;
+  const opponent = defending ? sides.challenger : sides.defender;
+  const round = Math.floor(turns.length / 2) + 1;
+
+  const instruction = turns.length === 0
+    ? "Open the debate with your strongest argument."
+    : `Respond to ${opponent.name}'s latest point directly, then advance your own position.`;
+
+  return [
+    system,
+    {
+      role: "user",
+      content:
+        `You are ${speaker.name} in a debate about the passage above. ` +
+        `You ${defending ? "defend" : "challenge"} the claim: "${config.topic}". ` +
+        `This is round ${round} of ${config.rounds}.\n\n` +
+        (turns.length > 0 ? `Debate so far:\n\n${transcript(sides, turns)}\n\n` : "") +
+        `${instruction} Ground your points in the text and keep it under 150 words.`,
+    },
+  ];
+}
+
+// Request for the moderator's closing summary of a finished (or stopped) debate
+export function debateSummaryMessages(
+  system: Message,
+  config: DebateConfig,
+  sides: DebateSides,
+  turns: Message[]
+): Message[] {
+  return [
+    system,
+    {
+      role: "user",
+      content:
+        `You are a neutral moderator. Two debaters argued about the passage above; ` +
+        `${sides.defender.name} defended and ${sides.challenger.name} ` +
+        `challenged the claim: "${config.topic}".\n\nTranscript:\n\n${transcript(sides, turns)}\n\n` +
+        "Summarize the debate without taking sides. List where the two agree, where they disagree, " +
+        "and which questions the passage leaves unresolved.",
+    },
+  ];
+}
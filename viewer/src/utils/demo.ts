@@ -0,0 +1,109 @@
+// Server-only: demo mode runs the viewer with no API keys or network. Chats are
+// answered by the rule-based responder, speech is skipped, and documents are
+// replayed from recorded Marker responses instead of calling the backend.
+import { createHash } from "node:crypto";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+
+// Recorded responses are named by the SHA-256 of their PDF, as the backend caches them
+const RECORDINGS_DIR = process.env.DEMO_RECORDINGS_DIR || path.join("..", "backend", "cache");
+// PDFs to offer on the start screen; those without a recording are not listed
+const PDF_DIR = process.env.DEMO_PDF_DIR || "uploads";
+
+const DOC_HASH = /^[0-9a-f]{64}$/;
+
+export interface DemoDocument {
+  docHash: string;
+  title: string;
+  fileName: string;
+  pageCount: number;
+}
+
+export function isDemoMode(): boolean {
+  return process.env.DEMO_MODE === "1" || process.env.DEMO_MODE === "true";
+}
+
+async function listFiles(dir: string, extension: string): Promise<string[]> {
+  try {
+    return (await readdir(dir)).filter((name) => name.toLowerCase().endsWith(extension));
+  } catch (error) {
+    console.warn(`Demo directory ${dir} could not be read:`, error);
+    return [];
+  }
+}
+
+// The recorded Marker response for a PDF, or null when none was recorded
+export async function readRecording(docHash: string): Promise<unknown | null> {
+  if (!DOC_HASH.test(docHash)) return null;
+  try {
+    return JSON.parse(await readFile(path.join(RECORDINGS_DIR, `${docHash}.json`), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// The first heading of a recording, as plain text, to name the document by
+function recordingTitle(node: unknown): string | null {
+  if (typeof node !== "object" || node === null) return null;
+  const { block_type, html, children, blocks } = node as Record<string, unknown>;
+  if (block_type === "SectionHeader" && typeof html === "string") {
+    const title = html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+    if (title) return title;
+  }
+  for (const child of Array.isArray(children) ? children : blocks ? [blocks] : []) {
+    const title = recordingTitle(child);
+    if (title) return title;
+  }
+  return null;
+}
+
+function recordingPageCount(recording: unknown): number {
+  const pages = (recording as { blocks?: { children?: unknown } })?.blocks?.children;
+  return Array.isArray(pages) ? pages.length : 0;
+}
+
+// PDFs keyed by content hash; copies of the same file are listed once
+async function hashPdfs(): Promise<Map<string, string>> {
+  const byHash = new Map<string, string>();
+  for (const fileName of (await listFiles(PDF_DIR, ".pdf")).sort()) {
+    const hash = createHash("sha256").update(await readFile(path.join(PDF_DIR, fileName))).digest("hex");
+    if (!byHash.has(hash)) byHash.set(hash, fileName);
+  }
+  return byHash;
+}
+
+// The bundled PDFs don't change while the server runs, so they are hashed once
+let pdfIndex: Promise<Map<string, string>> | null = null;
+
+function indexPdfs(): Promise<Map<string, string>> {
+  pdfIndex ??= hashPdfs().catch((error) => {
+    // Try again on the next request rather than keep the failure
+    pdfIndex = null;
+    throw error;
+  });
+  return pdfIndex;
+}
+
+// PDFs that have a recorded Marker response, ready to open without the backend
+export async function listDemoDocuments(): Promise<DemoDocument[]> {
+  const recorded = new Set((await listFiles(RECORDINGS_DIR, ".json")).map((name) => name.slice(0, -".json".length)));
+  const documents: DemoDocument[] = [];
+  for (const [docHash, fileName] of await indexPdfs()) {
+    if (!recorded.has(docHash)) continue;
+    const recording = await readRecording(docHash);
+    if (!recording) continue;
+    documents.push({
+      docHash,
+      title: recordingTitle(recording) ?? fileName,
+      fileName,
+      pageCount: recordingPageCount(recording),
+    });
+  }
+  return documents;
+}
+
+export async function readDemoPdf(docHash: string): Promise<Buffer | null> {
+  if (!DOC_HASH.test(docHash)) return null;
+  const fileName = (await indexPdfs()).get(docHash);
+  return fileName ? readFile(path.join(PDF_DIR, fileName)) : null;
+}
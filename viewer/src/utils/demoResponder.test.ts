@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import type { Block } from "./documentModel";
+import type { Message } from "./fireworks";
+import { demoReply } from "./demoResponder";
+import { buildBlockContext, buildDocumentContext } from "./blockContext";
+import { gradeRequestMessages, parseGrade, parseQuiz, quizRequestMessages } from "./quiz";
+import { parseTranslation, translationRequestMessages } from "./translation";
+import { debateSummaryMessages, debateTurnMessages } from "./debate";
+import { BUILT_IN_PERSONAS } from "./personas";
+import { summaryRequestMessages } from "./contextBudget";
+
+// The replies are checked against the prompts the app really sends, so a
+// reworded prompt that the responder no longer recognizes fails here
+
+function block(id: string, blockType: string, html: string, pageIndex = 0): Block {
+  return { id, type: blockType, block_type: blockType, html, polygon: [[0, 0], [1, 0], [1, 1], [0, 1]], pageIndex };
+}
+
+const blocks = [
+  block("/page/0/SectionHeader/0", "SectionHeader", "<h1>Attention</h1>"),
+  block(
+    "/page/0/Text/1",
+    "Text",
+    "<p>Transformers use attention to weigh every token against the others. " +
+      "Attention scores come from the dot products of queries and keys. " +
+      "The values are then mixed according to those scores.</p>"
+  ),
+  block("/page/0/Text/2", "Text", "<p>Residual connections keep gradients stable in deep networks.</p>"),
+  block("/page/1/Text/0", "Text", "<p>Layer normalization rescales activations before each sublayer.</p>", 1),
+];
+const ids = new Set(blocks.map((b) => b.id));
+
+function blockChat(question: string): Message[] {
+  return [
+    { role: "system", content: buildBlockContext([blocks[1]], blocks) },
+    { role: "user", content: question },
+  ];
+}
+
+describe("demoReply", () => {
+  it("is deterministic", () => {
+    const messages = blockChat("Where do the scores come from?");
+    expect(demoReply(messages, "leashed")).toBe(demoReply(messages, "leashed"));
+  });
+
+  it("answers a block chat from the selected passage, in each Dobby's voice", () => {
+    const leashed = demoReply(blockChat("Where do the scores come from?"), "leashed");
+    const unhinged = demoReply(blockChat("Where do the scores come from?"), "unhinged");
+
+    expect(leashed).toContain("Attention scores come from the dot products of queries and keys.");
+    expect(unhinged).toContain("Attention scores come from the dot products of queries and keys.");
+    expect(leashed).not.toBe(unhinged);
+  });
+
+  it("follows the block presets", () => {
+    expect(demoReply(blockChat("Summarize this briefly"), "leashed")).toContain(
+      "In short: Transformers use attention"
+    );
+    expect(demoReply(blockChat("Teach this to me"), "leashed")).toMatch(/^1\. The values are then mixed/m);
+  });
+
+  it("cites the passages of a document chat", () => {
+    const messages: Message[] = [
+      { role: "system", content: buildDocumentContext([blocks[2], blocks[3]]) },
+      { role: "user", content: "What keeps gradients stable?" },
+    ];
+    const reply = demoReply(messages, "leashed");
+
+    expect(reply).toContain("Residual connections keep gradients stable in deep networks. [/page/0/Text/2]");
+    expect(reply.indexOf("/page/0/Text/2")).toBeLessThan(reply.indexOf("/page/1/Text/0"));
+  });
+
+  it("says so when no passage matched a document question", () => {
+    const messages: Message[] = [
+      { role: "system", content: buildDocumentContext([]) },
+      { role: "user", content: "Who wrote this?" },
+    ];
+    expect(demoReply(messages, "unhinged")).toContain("couldn't find anything");
+  });
+
+  it("writes a quiz that parseQuiz accepts", () => {
+    const questions = parseQuiz(demoReply(quizRequestMessages(blocks, 3), "leashed"), ids);
+
+    expect(questions).toHaveLength(3);
+    for (const question of questions) {
+      expect(question.sourceBlockIds).toHaveLength(1);
+      expect(question.answer.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("grades by overlap with the expected answer", () => {
+    const question = {
+      question: "Where do attention scores come from?",
+      answer: "Attention scores come from the dot products of queries and keys.",
+      sourceBlockIds: ["/page/0/Text/1"],
+    };
+    const grade = (answer: string) => parseGrade(demoReply(gradeRequestMessages(question, answer), "leashed"));
+
+    expect(grade("attention scores come from dot products of queries and keys").verdict).toBe("correct");
+    expect(grade("from queries and keys").verdict).toBe("partial");
+    expect(grade("no idea").verdict).toBe("incorrect");
+  });
+
+  it("returns a translation that parseTranslation accepts", () => {
+    const batch = [blocks[0], blocks[2]];
+    const reply = demoReply(translationRequestMessages(batch, "Spanish", {}), "leashed");
+    const result = parseTranslation(reply, new Set(batch.map((b) => b.id)), {});
+
+    expect(result.texts).toEqual({
+      "/page/0/SectionHeader/0": "[Spanish] Attention",
+      "/page/0/Text/2": "[Spanish] Residual connections keep gradients stable in deep networks.",
+    });
+  });
+
+  it("writes a rolling summary that keeps the reader's questions", () => {
+    const plan = {
+      insertAt: 3,
+      previousSummary: { role: "system" as const, content: "Earlier, the reader asked about tokens.", summary: true },
+      turns: [
+        { role: "user" as const, content: "What is a query?" },
+        { role: "assistant" as const, content: "A vector." },
+      ],
+    };
+    const summary = demoReply(summaryRequestMessages(plan), "leashed");
+
+    expect(summary).toContain("Earlier, the reader asked about tokens.");
+    expect(summary).toContain('"What is a query?"');
+  });
+
+  it("argues both sides of a debate between any two personas and moderates it", () => {
+    const system: Message = { role: "system", content: buildBlockContext([blocks[1]], blocks) };
+    const config = { topic: "Attention is all you need", rounds: 2, defenderId: "leashed", challengerId: "skeptic" };
+    const sides = {
+      defender: BUILT_IN_PERSONAS[0],
+      challenger: { ...BUILT_IN_PERSONAS[1], id: "skeptic", name: "Professor Skeptic" },
+    };
+    const turns: Message[] = [];
+    const opening = demoReply(debateTurnMessages(system, config, sides, turns), "leashed");
+    turns.push({ role: "assistant", content: opening, modelUsed: "leashed", personaId: "leashed" });
+    const rebuttal = demoReply(debateTurnMessages(system, config, sides, turns), "unhinged");
+    const summary = demoReply(debateSummaryMessages(system, config, sides, turns), "leashed");
+
+    expect(debateTurnMessages(system, config, sides, turns).at(-1)?.content).toMatch(/^You are Professor Skeptic/);
+    expect(opening).toMatch(/^Attention is all you need holds up\./);
+    expect(rebuttal).toMatch(/^I don't buy that attention is all you need\./);
+    expect(summary).toContain("**The claim:** Attention is all you need");
+  });
+});
@@ -0,0 +1,252 @@
+import type { DobbyModel, Message } from "./fireworks";
+
+// Rule-based stand-in for the Dobby models in demo mode. It recognizes the
+// requests the app sends (block and document chats, quizzes, grading,
+// translation, rolling summaries, debates) and answers each in the shape its
+// caller parses, built from the passages in the prompt. Replies depend only on
+// the messages and the model, so demos and UI work behave the same every run.
+
+interface Passage {
+  id: string;
+  text: string;
+}
+
+// "[/page/3/Text/2]" or "[/page/3/Text/2] (page 4)", then the passage on the next line
+const LABELED_PASSAGE = /^\[(\/page\/\d+\/[A-Za-z]+\/\d+)\][^\n]*\n([\s\S]+)$/;
+
+const STOPWORDS = new Set(
+  ("this that with from have what which about there their they them these those then than into " +
+    "when where does were will would could should your more most some such only also been being " +
+    "each other over under very just like mean means explain passage tell show")
+    .split(" ")
+);
+
+const VOICES: Record<DobbyModel, { opener: string; closer: string }> = {
+  leashed: {
+    opener: "Happy to help!",
+    closer: "Want me to go deeper on any part of it?",
+  },
+  unhinged: {
+    opener: "Alright, no fluff.",
+    closer: "Now go read the next bit, it won't read itself.",
+  },
+};
+
+function lastUserContent(messages: Message[]): string {
+  return [...messages].reverse().find((m) => m.role === "user")?.content.trim() ?? "";
+}
+
+function systemContent(messages: Message[]): string {
+  return messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+}
+
+function keywords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter((w) => w.length > 3 && !STOPWORDS.has(w));
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit).trimEnd()}…` : text;
+}
+
+// Share of `query`'s keywords that appear in `text`
+function overlap(query: string, text: string): number {
+  const wanted = new Set(keywords(query));
+  if (wanted.size === 0) return 0;
+  const present = new Set(keywords(text));
+  return [...wanted].filter((w) => present.has(w)).length / wanted.size;
+}
+
+// The sentence sharing the most keywords with `query`; the first one on a tie
+function bestSentence(query: string, text: string): string {
+  const candidates = sentences(text);
+  let best = candidates[0] ?? text;
+  let bestScore = 0;
+  for (const candidate of candidates) {
+    const score = overlap(query, candidate);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function labeledPassages(text: string): Passage[] {
+  return text.split("\n\n").flatMap((chunk): Passage[] => {
+    const match = chunk.match(LABELED_PASSAGE);
+    return match ? [{ id: match[1], text: match[2].trim() }] : [];
+  });
+}
+
+// The selected text from a block chat's context, see buildBlockContext
+function selectedPassage(system: string): string | null {
+  const match = system.match(/Selected passages?:\n([\s\S]*?)(?:\n\nNext passage:|\n\nUse this when answering|$)/);
+  return match ? match[1].trim() : null;
+}
+
+function quizReply(messages: Message[]): string {
+  const count = Number(lastUserContent(messages).match(/Write (\d+) questions/)?.[1] ?? 3);
+  const passages = labeledPassages(systemContent(messages)).filter((p) => p.text.length >= 40);
+
+  // First sentences of every passage, then second sentences, and so on
+  const candidates: { id: string; sentence: string }[] = [];
+  const perPassage = passages.map((p) => sentences(p.text).filter((s) => keywords(s).length >= 2));
+  for (let i = 0; candidates.length < count && perPassage.some((list) => list.length > i); i++) {
+    perPassage.forEach((list, p) => {
+      if (list[i] && candidates.length < count) candidates.push({ id: passages[p].id, sentence: list[i] });
+    });
+  }
+
+  const questions = candidates.map(({ id, sentence }) => {
+    const topic = keywords(sentence).sort((a, b) => b.length - a.length)[0];
+    return {
+      question: `What does the passage say about "${topic}"?`,
+      answer: truncate(sentence, 240),
+      sourceBlockIds: [id],
+    };
+  });
+  return JSON.stringify({ questions });
+}
+
+function gradeReply(messages: Message[]): string {
+  const request = lastUserContent(messages);
+  const expected = request.match(/Expected answer: (.*)/)?.[1] ?? "";
+  const answer = request.match(/Reader's answer: (.*)/)?.[1] ?? "";
+  const score = overlap(expected, answer);
+
+  if (score >= 0.6) {
+    return JSON.stringify({ verdict: "correct", feedback: "That covers the key points of the expected answer." });
+  }
+  if (score >= 0.25) {
+    return JSON.stringify({
+      verdict: "partial",
+      feedback: `You're on the right track; the full answer is: ${truncate(expected, 200)}`,
+    });
+  }
+  return JSON.stringify({ verdict: "incorrect", feedback: `The passage says: ${truncate(expected, 200)}` });
+}
+
+// Demo translations are the source text tagged with the language, so the
+// overlays, cache and glossary plumbing can be exercised without a model
+function translationReply(messages: Message[]): string {
+  const language = systemContent(messages).match(/into (.+?)\. Translate/)?.[1] ?? "Translation";
+  const source = lastUserContent(messages).split("\n\nReply with only JSON")[0];
+  const translations = Object.fromEntries(
+    labeledPassages(source).map((p) => [p.id, `[${language}] ${p.text}`])
+  );
+  return JSON.stringify({ translations, glossary: {} });
+}
+
+function rollingSummaryReply(messages: Message[]): string {
+  const request = lastUserContent(messages);
+  const previous = request.match(/^Summary so far:\n([\s\S]*?)\n\nConversation to add:/)?.[1];
+  const questions = [...request.matchAll(/^Reader: (.*)$/gm)].map((m) => truncate(m[1], 120));
+
+  return [
+    previous,
+    questions.length > 0
+      ? `The reader asked: ${questions.map((q) => `"${q}"`).join("; ")}. Dobby answered each from the passage.`
+      : "Dobby and the reader discussed the passage.",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function debateTurnReply(messages: Message[]): string {
+  const request = lastUserContent(messages);
+  const stance = request.match(/You (defend|challenge) the claim: "(.*?)"\./);
+  const round = Number(request.match(/This is round (\d+)/)?.[1] ?? 1);
+  const claim = stance?.[2] ?? "the claim";
+  const points = sentences(selectedPassage(systemContent(messages)) ?? "");
+  const evidence = points.length > 0 ? points[(round - 1) % points.length] : null;
+
+  const argument = stance?.[1] === "challenge"
+    ? `I don't buy that ${claim.charAt(0).toLowerCase()}${claim.slice(1)}. ` +
+      (evidence ? `The text only says: "${truncate(evidence, 200)}" That is a long way from proving it.` : "")
+    : `${claim} holds up. ` +
+      (evidence ? `Look at the text: "${truncate(evidence, 200)}"` : "");
+  return argument.trim();
+}
+
+function moderatorReply(messages: Message[]): string {
+  const claim = lastUserContent(messages).match(/the claim: "(.*?)"\./)?.[1] ?? "the claim";
+  return [
+    `**The claim:** ${claim}`,
+    "**Agreement:** Both sides quoted the same passage and accept what it literally says.",
+    "**Disagreement:** Whether that text is enough to establish the claim.",
+    "**Unresolved:** What evidence beyond this passage would settle it.",
+  ].join("\n\n");
+}
+
+function documentChatReply(messages: Message[], model: DobbyModel): string {
+  const system = systemContent(messages);
+  if (system.includes("No passages of the document matched")) {
+    return "I couldn't find anything about that in the document. Try different words, or select a passage and ask about it directly.";
+  }
+
+  const question = lastUserContent(messages);
+  const ranked = labeledPassages(system)
+    .map((passage, index) => ({ passage, index, score: overlap(question, passage.text) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, 2);
+
+  const claims = ranked.map(
+    ({ passage }) => `- ${truncate(bestSentence(question, passage.text), 240)} [${passage.id}]`
+  );
+  return [`${VOICES[model].opener} Here is what the document says:`, ...claims].join("\n");
+}
+
+function blockChatReply(messages: Message[], model: DobbyModel): string {
+  const question = lastUserContent(messages);
+  const selected = selectedPassage(systemContent(messages));
+  const voice = VOICES[model];
+  if (!selected) {
+    return `${voice.opener} I can only answer from the document in demo mode. Select a passage and ask about it.`;
+  }
+
+  if (selected.includes("You cannot see the image")) {
+    const caption = selected.match(/Caption: (.*)/)?.[1];
+    return caption
+      ? `${voice.opener} Going by its caption, this figure shows: ${caption}\n\n${voice.closer}`
+      : `${voice.opener} This figure has no caption, so the surrounding text is the best guide to what it shows.`;
+  }
+
+  const body = selected.replace(/^(Table \(Markdown\)|Equation \(LaTeX\)):\n/, "");
+  const parts = sentences(body);
+  let answer: string;
+  if (/summar|takeaway|tl;?dr/i.test(question)) {
+    answer = `In short: ${truncate(parts.slice(0, 2).join(" "), 400)}`;
+  } else if (/teach|walk me|step|term by term|intuition|explain/i.test(question)) {
+    answer = ["Let's take it piece by piece:", ...parts.slice(0, 3).map((s) => `1. ${truncate(s, 240)}`)].join("\n");
+  } else {
+    answer = `The passage puts it this way: "${truncate(bestSentence(question, body), 300)}"`;
+  }
+  return `${voice.opener} ${answer}\n\n${voice.closer}`;
+}
+
+/**
+ * Scripted reply to `messages` as the given Dobby would send it. JSON requests
+ * get JSON their parsers accept; chats get Markdown quoting the passage.
+ */
+export function demoReply(messages: Message[], model: DobbyModel): string {
+  const system = systemContent(messages);
+  const request = lastUserContent(messages);
+
+  if (request.includes('{"questions": [')) return quizReply(messages);
+  if (request.includes('{"verdict":')) return gradeReply(messages);
+  if (request.includes('{"translations":')) return translationReply(messages);
+  if (system.startsWith("You condense a conversation")) return rollingSummaryReply(messages);
+  if (request.startsWith("You are a neutral moderator")) return moderatorReply(messages);
+  if (/^You are .+? in a debate about the passage above\./.test(request)) return debateTurnReply(messages);
+  if (system.includes("The user is asking about the document") || system.includes("No passages of the document matched")) {
+    return documentChatReply(messages, model);
+  }
+  return blockChatReply(messages, model);
+}
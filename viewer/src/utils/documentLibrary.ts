@@ -0,0 +1,93 @@
+import type { Block, IngestionSource } from "./documentModel";
+import { countChattedBlocks } from "./conversationStore";
+import { openDatabase, requestToPromise, transactionDone } from "./db";
+
+// A document in the library, as listed on the start screen
+export interface LibraryDocument {
+  docHash: string;
+  fileName: string;
+  pageCount: number;
+  ingestion: IngestionSource;
+  addedAt: number;
+  lastOpenedAt: number;
+}
+
+// What reopening needs: the PDF itself and its parsed blocks, so neither the
+// upload nor the backend call has to happen again
+export interface LibraryFile {
+  docHash: string;
+  pdf: Blob;
+  blocks: Block[];
+  images: { [name: string]: string };
+}
+
+export type LibraryEntry = LibraryDocument & { chattedBlocks: number };
+
+// Most recently opened first, with how many blocks have chats
+export async function listDocuments(): Promise<LibraryEntry[]> {
+  const db = await openDatabase();
+  const tx = db.transaction("documents", "readonly");
+  const documents = await requestToPromise<LibraryDocument[]>(tx.objectStore("documents").getAll());
+  documents.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+
+  return Promise.all(
+    documents.map(async (doc) => ({
+      ...doc,
+      chattedBlocks: await countChattedBlocks(doc.docHash).catch(() => 0),
+    }))
+  );
+}
+
+// Saving a document that is already in the library keeps when it was first added
+export async function saveDocument(document: LibraryDocument, file: LibraryFile): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(["documents", "documentFiles"], "readwrite");
+  const store = tx.objectStore("documents");
+  const existing = await requestToPromise<LibraryDocument | undefined>(store.get(document.docHash));
+  store.put(existing ? { ...document, addedAt: existing.addedAt } : document);
+  tx.objectStore("documentFiles").put(file);
+  await transactionDone(tx);
+}
+
+export async function loadDocument(docHash: string): Promise<LibraryDocument | null> {
+  const db = await openDatabase();
+  const tx = db.transaction("documents", "readonly");
+  const document = await requestToPromise<LibraryDocument | undefined>(tx.objectStore("documents").get(docHash));
+  return document ?? null;
+}
+
+export async function loadDocumentFile(docHash: string): Promise<LibraryFile | null> {
+  const db = await openDatabase();
+  const tx = db.transaction("documentFiles", "readonly");
+  const file = await requestToPromise<LibraryFile | undefined>(
+    tx.objectStore("documentFiles").get(docHash)
+  );
+  return file ?? null;
+}
+
+export async function markDocumentOpened(docHash: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("documents", "readwrite");
+  const store = tx.objectStore("documents");
+  const document = await requestToPromise<LibraryDocument | undefined>(store.get(docHash));
+  if (document) store.put({ ...document, lastOpenedAt: Date.now() });
+  await transactionDone(tx);
+}
+
+// Drop the stored PDF and blocks; conversations, highlights and cards stay keyed by hash
+export async function removeDocument(docHash: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(["documents", "documentFiles"], "readwrite");
+  tx.objectStore("documents").delete(docHash);
+  tx.objectStore("documentFiles").delete(docHash);
+  await transactionDone(tx);
+}
+
+export function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,264 @@
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { buildDocumentModel, indexBlocks } from "./documentModel";
+
+// Marker responses recorded by the backend, named by the SHA-256 of their PDF
+const CACHE_DIR = path.join(process.cwd(), "..", "backend", "cache");
+const fixtures = readdirSync(CACHE_DIR).filter((name) => name.endsWith(".json"));
+
+function loadFixture(name: string): Record<string, unknown> {
+  return JSON.parse(readFileSync(path.join(CACHE_DIR, name), "utf8"));
+}
+
+// A small valid payload to break in the malformed-input tests
+function markerResponse() {
+  return {
+    success: true,
+    images: {},
+    blocks: {
+      block_type: "Document",
+      children: [
+        {
+          id: "/page/0/Page/1",
+          block_type: "Page",
+          html: "",
+          polygon: [[0, 0], [612, 0], [612, 792], [0, 792]],
+          section_hierarchy: null,
+          images: null,
+          children: [
+            {
+              id: "/page/0/SectionHeader/0",
+              block_type: "SectionHeader",
+              html: "<h1>Intro</h1>",
+              polygon: [[10, 10], [200, 10], [200, 30], [10, 30]],
+              section_hierarchy: { "1": "/page/0/SectionHeader/0" },
+              images: null,
+              children: null,
+            },
+            {
+              id: "/page/0/Text/2",
+              block_type: "Text",
+              html: "<p>Body</p>",
+              polygon: [[10, 40], [200, 40], [200, 80], [10, 80]],
+              section_hierarchy: { "1": "/page/0/SectionHeader/0" },
+              images: null,
+              children: null,
+            },
+          ],
+        },
+      ],
+    },
+  };
+}
+
+describe("buildDocumentModel on the recorded Marker responses", () => {
+  it("has fixtures to test against", () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  it.each(fixtures)("flattens %s", (name) => {
+    const data = loadFixture(name);
+    const pages = (data.blocks as { children: { id: string }[] }).children;
+    const model = buildDocumentModel(data);
+
+    expect(model.pageCount).toBe(pages.length);
+    expect(model.blocks.filter((b) => b.block_type === "Page")).toHaveLength(pages.length);
+    expect(new Set(model.blocks.map((b) => b.id)).size).toBe(model.blocks.length);
+
+    const byId = new Map(model.blocks.map((b) => [b.id, b]));
+    model.blocks.forEach((block, index) => {
+      // Pages are roots; every other block is listed by its parent and comes after it
+      if (block.block_type === "Page") {
+        expect(block.parentId).toBeNull();
+      } else {
+        const parent = byId.get(block.parentId!);
+        expect(parent?.childIds).toContain(block.id);
+        expect(model.blocks.indexOf(parent!)).toBeLessThan(index);
+        expect(block.pageIndex).toBe(parent!.pageIndex);
+      }
+      // The page number in a Marker ID matches the page the block was found on
+      const fromId = block.id.match(/^\/page\/(\d+)\//);
+      if (fromId) expect(block.pageIndex).toBe(Number(fromId[1]));
+    });
+  });
+
+  it("keeps the section links Marker sends", () => {
+    const model = buildDocumentModel(loadFixture(fixtures[0]));
+    const ids = new Set(model.blocks.map((b) => b.id));
+    const linked = model.blocks.filter((b) => b.section_hierarchy && Object.keys(b.section_hierarchy).length > 0);
+
+    expect(linked.length).toBeGreaterThan(0);
+    for (const block of linked) {
+      for (const headerId of Object.values(block.section_hierarchy!)) {
+        expect(ids.has(headerId)).toBe(true);
+      }
+    }
+  });
+});
+
+// Two pages: a section with a nested subsection whose list continues onto page 1
+function nestedResponse() {
+  const block = (
+    id: string,
+    block_type: string,
+    hierarchy: { [level: string]: string } | null,
+    children: unknown[] | null = null
+  ) => ({
+    id,
+    block_type,
+    html: "",
+    polygon: [[0, 0], [1, 0], [1, 1], [0, 1]],
+    section_hierarchy: hierarchy,
+    images: null,
+    children,
+  });
+  const intro = { "1": "/page/0/SectionHeader/0" };
+  const method = { "1": "/page/0/SectionHeader/0", "2": "/page/0/SectionHeader/2" };
+  return {
+    success: true,
+    images: {},
+    blocks: {
+      block_type: "Document",
+      children: [
+        block("/page/0/Page/0", "Page", null, [
+          block("/page/0/SectionHeader/0", "SectionHeader", intro),
+          block("/page/0/Text/1", "Text", intro),
+          block("/page/0/SectionHeader/2", "SectionHeader", method),
+          block("/page/0/ListGroup/3", "ListGroup", method, [
+            block("/page/0/ListItem/4", "ListItem", method),
+            block("/page/0/ListItem/5", "ListItem", method),
+          ]),
+        ]),
+        // Marker lists levels in any order; the ancestry is sorted by level
+        block("/page/1/Page/0", "Page", null, [
+          block("/page/1/Text/1", "Text", { "2": "/page/0/SectionHeader/2", "1": "/page/0/SectionHeader/0" }),
+          block("/page/1/Text/2", "Text", { "1": "/page/0/SectionHeader/0", "3": "/page/9/SectionHeader/9" }),
+        ]),
+      ],
+    },
+  };
+}
+
+describe("DocumentModel lookups", () => {
+  const model = buildDocumentModel(nestedResponse());
+  const ids = (blocks: { id: string }[]) => blocks.map((b) => b.id);
+
+  it("finds blocks by ID", () => {
+    expect(model.getBlock("/page/0/ListItem/4")?.block_type).toBe("ListItem");
+    expect(model.getBlock("/page/7/Text/0")).toBeNull();
+  });
+
+  it("links parents and children", () => {
+    expect(model.parentOf("/page/0/ListItem/4")?.id).toBe("/page/0/ListGroup/3");
+    expect(model.parentOf("/page/0/Text/1")?.id).toBe("/page/0/Page/0");
+    expect(model.parentOf("/page/0/Page/0")).toBeNull();
+    expect(ids(model.childrenOf("/page/0/ListGroup/3"))).toEqual(["/page/0/ListItem/4", "/page/0/ListItem/5"]);
+    expect(model.childrenOf("/page/0/ListItem/4")).toEqual([]);
+    expect(model.childrenOf("/page/7/Text/0")).toEqual([]);
+  });
+
+  it("lists a page's content in reading order, without the Page block", () => {
+    expect(ids(model.blocksOnPage(0))).toEqual([
+      "/page/0/SectionHeader/0",
+      "/page/0/Text/1",
+      "/page/0/SectionHeader/2",
+      "/page/0/ListGroup/3",
+      "/page/0/ListItem/4",
+      "/page/0/ListItem/5",
+    ]);
+    expect(ids(model.blocksOnPage(1))).toEqual(["/page/1/Text/1", "/page/1/Text/2"]);
+    expect(model.blocksOnPage(2)).toEqual([]);
+  });
+
+  it("gives the section ancestry outermost first, across pages", () => {
+    expect(ids(model.sectionAncestry("/page/0/ListItem/5"))).toEqual([
+      "/page/0/SectionHeader/0",
+      "/page/0/SectionHeader/2",
+    ]);
+    expect(ids(model.sectionAncestry("/page/1/Text/1"))).toEqual([
+      "/page/0/SectionHeader/0",
+      "/page/0/SectionHeader/2",
+    ]);
+    // Headers that are not in the document are skipped
+    expect(ids(model.sectionAncestry("/page/1/Text/2"))).toEqual(["/page/0/SectionHeader/0"]);
+    expect(model.sectionAncestry("/page/0/Page/0")).toEqual([]);
+  });
+
+  it("gives each block's position in reading order", () => {
+    expect(model.readingIndex("/page/0/Page/0")).toBe(0);
+    expect(model.readingIndex("/page/0/ListItem/5")).toBe(6);
+    expect(model.readingIndex("/page/1/Text/1")).toBe(8);
+    expect(model.readingIndex("/page/7/Text/0")).toBe(-1);
+  });
+
+  it("indexes blocks restored without the rest of the model", () => {
+    const restored = indexBlocks(model.blocks);
+    expect(ids(restored.sectionAncestry("/page/0/ListItem/4"))).toEqual([
+      "/page/0/SectionHeader/0",
+      "/page/0/SectionHeader/2",
+    ]);
+    expect(restored.readingIndex("/page/1/Text/2")).toBe(9);
+  });
+});
+
+describe("buildDocumentModel on malformed input", () => {
+  it("flattens a valid payload in reading order", () => {
+    const model = buildDocumentModel(markerResponse());
+    expect(model.blocks.map((b) => b.id)).toEqual(["/page/0/Page/1", "/page/0/SectionHeader/0", "/page/0/Text/2"]);
+    expect(model.blocks[0].childIds).toEqual(["/page/0/SectionHeader/0", "/page/0/Text/2"]);
+    expect(model.blocks[2]).toMatchObject({ parentId: "/page/0/Page/1", pageIndex: 0, type: "Text" });
+  });
+
+  it("rejects a payload that is not an object", () => {
+    expect(() => buildDocumentModel(null)).toThrow("at (root): expected a JSON object");
+    expect(() => buildDocumentModel([])).toThrow("at (root): expected a JSON object");
+  });
+
+  it("reports backend failures as they were sent", () => {
+    expect(() => buildDocumentModel({ detail: "DATALAB_API_KEY not set" })).toThrow(
+      "PDF processing failed: DATALAB_API_KEY not set"
+    );
+    expect(() => buildDocumentModel({ success: false, error: "Marker timed out" })).toThrow(
+      "PDF processing failed: Marker timed out"
+    );
+  });
+
+  it("requires a Document root with a list of pages", () => {
+    const data = markerResponse();
+    (data.blocks as { block_type: string }).block_type = "Page";
+    expect(() => buildDocumentModel(data)).toThrow('at blocks.block_type: expected "Document", got "Page"');
+
+    expect(() => buildDocumentModel({ ...markerResponse(), blocks: { block_type: "Document" } })).toThrow(
+      "at blocks.children: expected a list of pages"
+    );
+  });
+
+  it("requires the top-level blocks to be pages", () => {
+    const data = markerResponse();
+    data.blocks.children[0].block_type = "Text";
+    expect(() => buildDocumentModel(data)).toThrow('at blocks.children[0].block_type: expected "Page", got "Text"');
+  });
+
+  it("names the path of an invalid nested field", () => {
+    const badPolygon = markerResponse();
+    badPolygon.blocks.children[0].children[1].polygon = [[10, 40], [200, Number.NaN]];
+    expect(() => buildDocumentModel(badPolygon)).toThrow(
+      "at blocks.children[0].children[1].polygon[1]: expected an [x, y] pair of numbers"
+    );
+
+    const badHtml = markerResponse();
+    (badHtml.blocks.children[0].children[0] as { html: unknown }).html = 42;
+    expect(() => buildDocumentModel(badHtml)).toThrow("at blocks.children[0].children[0].html: expected a string");
+
+    const badImages = markerResponse();
+    (badImages as { images: unknown }).images = { "figure.png": 7 };
+    expect(() => buildDocumentModel(badImages)).toThrow("at images.figure.png: expected a string");
+  });
+
+  it("rejects duplicate block IDs", () => {
+    const data = markerResponse();
+    data.blocks.children[0].children[1].id = "/page/0/SectionHeader/0";
+    expect(() => buildDocumentModel(data)).toThrow('duplicate block ID "/page/0/SectionHeader/0"');
+  });
+});
@@ -0,0 +1,224 @@
+// Typed, validated view of the Marker JSON returned by /api/process-pdf.
+// The payload is checked once at the boundary; everything after works with
+// flattened `Block`s plus the parent, page and section links kept here.
+
+export interface Block {
+  id: string;
+  type: string;
+  block_type: string;
+  html: string;
+  // Corner points in PDF points, clockwise from the top left
+  polygon: number[][];
+  // Base64 images Marker extracted for this block, keyed by block ID
+  images?: { [id: string]: string } | null;
+  // Heading level (as a string, "1" the top) to the ID of the SectionHeader the block sits under
+  section_hierarchy?: { [level: string]: string } | null;
+  pageIndex?: number;
+  // Links into the block tree; stand-in blocks such as highlights have none
+  parentId?: string | null;
+  childIds?: string[];
+}
+
+// Where a document's blocks came from: the Marker backend, or the
+// browser-side pdf.js text-layer fallback (text only, approximate layout)
+export type IngestionSource = "marker" | "pdfjs";
+
+// A block as Marker sends it, before flattening
+interface MarkerBlock {
+  id: string;
+  block_type: string;
+  html: string;
+  polygon: number[][];
+  children: MarkerBlock[] | null;
+  section_hierarchy: { [level: string]: string } | null;
+  images: { [id: string]: string } | null;
+}
+
+// Lookups over a flattened block list, see indexBlocks
+export interface BlockIndex {
+  getBlock(id: string): Block | null;
+  parentOf(id: string): Block | null;
+  childrenOf(id: string): Block[];
+  // Content of one page in reading order, without the Page block itself
+  blocksOnPage(pageIndex: number): Block[];
+  // Section headers the block sits under, outermost first
+  sectionAncestry(id: string): Block[];
+  // Position in the block list, or -1
+  readingIndex(id: string): number;
+}
+
+export interface DocumentModel extends BlockIndex {
+  // Every block in reading order, Page blocks included
+  blocks: Block[];
+  // Document-level images keyed by Marker's image file name
+  images: { [name: string]: string };
+  pageCount: number;
+}
+
+// Marker IDs carry the page number: "/page/3/Text/2"
+const PAGE_IN_ID = /^\/page\/(\d+)\//;
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid document from the PDF processor at ${path}: ${problem}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateStringMap(value: unknown, path: string): { [key: string]: string } | null {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) fail(path, "expected an object");
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry !== "string") fail(`${path}.${key}`, "expected a string");
+  }
+  return value as { [key: string]: string };
+}
+
+function validatePolygon(value: unknown, path: string): number[][] {
+  if (!Array.isArray(value)) fail(path, "expected a list of [x, y] points");
+  value.forEach((point, i) => {
+    if (
+      !Array.isArray(point) ||
+      point.length !== 2 ||
+      !point.every((n) => typeof n === "number" && Number.isFinite(n))
+    ) {
+      fail(`${path}[${i}]`, "expected an [x, y] pair of numbers");
+    }
+  });
+  return value as number[][];
+}
+
+function validateBlock(value: unknown, path: string): MarkerBlock {
+  if (!isRecord(value)) fail(path, "expected a block object");
+  const { id, block_type, html, polygon, children, section_hierarchy, images } = value;
+  if (typeof id !== "string" || !id) fail(`${path}.id`, "expected a non-empty string");
+  if (typeof block_type !== "string" || !block_type) {
+    fail(`${path}.block_type`, "expected a non-empty string");
+  }
+  if (typeof html !== "string") fail(`${path}.html`, "expected a string");
+  if (children !== null && children !== undefined && !Array.isArray(children)) {
+    fail(`${path}.children`, "expected a list or null");
+  }
+
+  return {
+    id,
+    block_type,
+    html,
+    polygon: validatePolygon(polygon, `${path}.polygon`),
+    children: Array.isArray(children)
+      ? children.map((child, i) => validateBlock(child, `${path}.children[${i}]`))
+      : null,
+    section_hierarchy: validateStringMap(section_hierarchy, `${path}.section_hierarchy`),
+    images: validateStringMap(images, `${path}.images`),
+  };
+}
+
+/**
+ * Check a /api/process-pdf response against the shape Marker produces:
+ * `{ success, blocks: { block_type: "Document", children: [Page...] }, images }`.
+ * Throws an error naming the first offending path, e.g. `blocks.children[2].polygon`.
+ */
+function validateMarkerResponse(data: unknown): { pages: MarkerBlock[]; images: { [name: string]: string } } {
+  if (!isRecord(data)) fail("(root)", "expected a JSON object");
+  // FastAPI reports processing failures as { detail }
+  if (typeof data.detail === "string") throw new Error(`PDF processing failed: ${data.detail}`);
+  if (data.success === false) {
+    throw new Error(`PDF processing failed: ${typeof data.error === "string" ? data.error : "unknown error"}`);
+  }
+
+  const root = data.blocks;
+  if (!isRecord(root)) fail("blocks", "expected the document block");
+  if (root.block_type !== "Document") fail("blocks.block_type", `expected "Document", got ${JSON.stringify(root.block_type)}`);
+  if (!Array.isArray(root.children)) fail("blocks.children", "expected a list of pages");
+
+  const pages = root.children.map((page, i) => validateBlock(page, `blocks.children[${i}]`));
+  pages.forEach((page, i) => {
+    if (page.block_type !== "Page") {
+      fail(`blocks.children[${i}].block_type`, `expected "Page", got "${page.block_type}"`);
+    }
+  });
+
+  return { pages, images: validateStringMap(data.images, "images") ?? {} };
+}
+
+/**
+ * Validate a Marker payload and flatten it into a `DocumentModel`. Page indexes
+ * come from the Page block IDs (falling back to their position), and every block
+ * takes the index of the page it is on.
+ */
+export function buildDocumentModel(data: unknown): DocumentModel {
+  const { pages, images } = validateMarkerResponse(data);
+
+  const blocks: Block[] = [];
+  const seen = new Set<string>();
+
+  const visit = (raw: MarkerBlock, pageIndex: number, parentId: string | null, path: string) => {
+    if (seen.has(raw.id)) fail(`${path}.id`, `duplicate block ID "${raw.id}"`);
+    const block: Block = {
+      id: raw.id,
+      type: raw.block_type,
+      block_type: raw.block_type,
+      html: raw.html,
+      polygon: raw.polygon,
+      images: raw.images,
+      section_hierarchy: raw.section_hierarchy,
+      pageIndex,
+      parentId,
+      childIds: (raw.children ?? []).map((child) => child.id),
+    };
+    blocks.push(block);
+    seen.add(block.id);
+    raw.children?.forEach((child, i) => visit(child, pageIndex, raw.id, `${path}.children[${i}]`));
+  };
+
+  let pageCount = 0;
+  pages.forEach((page, i) => {
+    const fromId = page.id.match(PAGE_IN_ID);
+    const pageIndex = fromId ? Number(fromId[1]) : i;
+    visit(page, pageIndex, null, `blocks.children[${i}]`);
+    pageCount = Math.max(pageCount, pageIndex + 1);
+  });
+
+  return { blocks, images, pageCount, ...indexBlocks(blocks) };
+}
+
+/**
+ * Index flattened blocks (a document model's, or one restored from the library)
+ * by ID, position and page. Links to blocks that are not in the list resolve to
+ * nothing, so stand-ins such as highlight blocks are safe to include.
+ */
+export function indexBlocks(blocks: Block[]): BlockIndex {
+  const byId = new Map<string, Block>();
+  const positions = new Map<string, number>();
+  const byPage = new Map<number, Block[]>();
+  blocks.forEach((block, i) => {
+    byId.set(block.id, block);
+    positions.set(block.id, i);
+    if (block.block_type === "Page") return;
+    const page = block.pageIndex ?? 0;
+    if (!byPage.has(page)) byPage.set(page, []);
+    byPage.get(page)!.push(block);
+  });
+
+  const getBlock = (id: string) => byId.get(id) ?? null;
+
+  return {
+    getBlock,
+    parentOf: (id) => {
+      const parentId = byId.get(id)?.parentId;
+      return parentId ? getBlock(parentId) : null;
+    },
+    childrenOf: (id) =>
+      (byId.get(id)?.childIds ?? []).map(getBlock).filter((b): b is Block => b !== null),
+    blocksOnPage: (pageIndex) => byPage.get(pageIndex) ?? [],
+    sectionAncestry: (id) => {
+      const hierarchy = byId.get(id)?.section_hierarchy ?? {};
+      return Object.entries(hierarchy)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([, headerId]) => getBlock(headerId))
+        .filter((b): b is Block => b !== null);
+    },
+    readingIndex: (id) => positions.get(id) ?? -1,
+  };
+}
@@ -0,0 +1,112 @@
+import { openDatabase, requestToPromise, transactionDone } from "./db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A saved quiz question, scheduled for review with SM-2
+export interface Flashcard {
+  id: string;
+  docHash: string;
+  question: string;
+  answer: string;
+  sourceBlockIds: string[];
+  createdAt: number;
+  // When the card is next due, in ms since the epoch
+  due: number;
+  // Days between the last review and `due`
+  interval: number;
+  // SM-2 ease factor; grows with easy reviews and shrinks with lapses
+  ease: number;
+  // Successful reviews in a row
+  repetitions: number;
+}
+
+export type ReviewRating = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_RATINGS: ReviewRating[] = ["again", "hard", "good", "easy"];
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export function newFlashcard(
+  fields: Pick<Flashcard, "id" | "docHash" | "question" | "answer" | "sourceBlockIds">,
+  now = Date.now()
+): Flashcard {
+  return { ...fields, createdAt: now, due: now, interval: 0, ease: INITIAL_EASE, repetitions: 0 };
+}
+
+/**
+ * Reschedule a card after a review, following SM-2: "again" restarts the card
+ * tomorrow; the other ratings grow the interval by the ease factor, which each
+ * rating nudges up or down.
+ */
+export function scheduleReview(card: Flashcard, rating: ReviewRating, now = Date.now()): Flashcard {
+  if (rating === "again") {
+    const ease = Math.max(MIN_EASE, card.ease - 0.2);
+    return { ...card, ease, repetitions: 0, interval: 1, due: now + DAY_MS };
+  }
+
+  const ease = Math.max(
+    MIN_EASE,
+    card.ease + (rating === "hard" ? -0.15 : rating === "easy" ? 0.15 : 0)
+  );
+  let interval: number;
+  if (card.repetitions === 0) interval = rating === "easy" ? 4 : 1;
+  else if (card.repetitions === 1) interval = rating === "easy" ? 8 : 6;
+  else {
+    const factor = rating === "hard" ? 1.2 : rating === "easy" ? ease * 1.3 : ease;
+    // Always move forward by at least a day, even on short intervals
+    interval = Math.max(card.interval + 1, Math.round(card.interval * factor));
+  }
+
+  return { ...card, ease, repetitions: card.repetitions + 1, interval, due: now + interval * DAY_MS };
+}
+
+export function isDue(card: Flashcard, now = Date.now()): boolean {
+  return card.due <= now;
+}
+
+export async function loadDeck(docHash: string): Promise<Flashcard[]> {
+  const db = await openDatabase();
+  const tx = db.transaction("flashcards", "readonly");
+  const cards = await requestToPromise<Flashcard[]>(
+    tx.objectStore("flashcards").index("docHash").getAll(docHash)
+  );
+  return cards.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveFlashcards(cards: Flashcard[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("flashcards", "readwrite");
+  const store = tx.objectStore("flashcards");
+  for (const card of cards) store.put(card);
+  await transactionDone(tx);
+}
+
+export async function deleteFlashcard(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("flashcards", "readwrite");
+  tx.objectStore("flashcards").delete(id);
+  await transactionDone(tx);
+}
+
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * The deck as CSV for Anki's File > Import. The header lines tell Anki the
+ * separator, the columns and which one holds the tags; tags record the source
+ * pages, e.g. "page-4".
+ */
+export function exportAnkiCsv(cards: Flashcard[]): string {
+  const rows = cards.map((card) => {
+    const pages = [...new Set(
+      card.sourceBlockIds
+        .map((id) => id.match(/^\/page\/(\d+)\//)?.[1])
+        .filter((page): page is string => page !== undefined)
+        .map((page) => `page-${Number(page) + 1}`)
+    )];
+    return [card.question, card.answer, ["read-with-dobby", ...pages].join(" ")].map(csvField).join(",");
+  });
+  return ["#separator:Comma", "#html:false", "#columns:Front,Back,Tags", "#tags column:3", ...rows].join("\n") + "\n";
+}
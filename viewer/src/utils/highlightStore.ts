@@ -0,0 +1,119 @@
+import type { HighlightArea } from "@react-pdf-viewer/highlight";
+import type { Block } from "./documentModel";
+import { openDatabase, requestToPromise, transactionDone } from "./db";
+
+// A user highlight over an arbitrary text range, with an optional margin note.
+// Areas are in the highlight plugin's units: percentages of the page size.
+export interface Highlight {
+  id: string;
+  docHash: string;
+  text: string;
+  areas: HighlightArea[];
+  note: string;
+  createdAt: number;
+}
+
+// Highlights chat through a stand-in block; its ID doubles as the conversation key
+const HIGHLIGHT_BLOCK_PREFIX = "highlight:";
+
+// Marker's page size when the Page block is missing: US Letter in PDF points
+const DEFAULT_PAGE_SIZE = { width: 612, height: 792 };
+
+export async function loadHighlights(docHash: string): Promise<Highlight[]> {
+  const db = await openDatabase();
+  const tx = db.transaction("highlights", "readonly");
+  const highlights = await requestToPromise<Highlight[]>(
+    tx.objectStore("highlights").index("docHash").getAll(docHash)
+  );
+  return highlights.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveHighlight(highlight: Highlight): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("highlights", "readwrite");
+  tx.objectStore("highlights").put(highlight);
+  await transactionDone(tx);
+}
+
+export async function deleteHighlight(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("highlights", "readwrite");
+  tx.objectStore("highlights").delete(id);
+  await transactionDone(tx);
+}
+
+export function highlightBlockId(highlight: Highlight): string {
+  return `${HIGHLIGHT_BLOCK_PREFIX}${highlight.id}`;
+}
+
+export function isHighlightBlock(block: Block): boolean {
+  return block.id.startsWith(HIGHLIGHT_BLOCK_PREFIX);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function pageSize(blocks: Block[], pageIndex: number) {
+  const page = blocks.find((b) => b.block_type === "Page" && b.pageIndex === pageIndex);
+  if (!page?.polygon?.length) return DEFAULT_PAGE_SIZE;
+  return {
+    width: Math.max(...page.polygon.map((p) => p[0])),
+    height: Math.max(...page.polygon.map((p) => p[1])),
+  };
+}
+
+/**
+ * Stand-in Text block for a highlight, so it can be chatted about and exported
+ * like any Marker block. Its polygon is the highlight's bounds in page points.
+ * Null for a highlight with no areas, which has no bounds.
+ */
+export function toHighlightBlock(highlight: Highlight, blocks: Block[]): Block | null {
+  if (highlight.areas.length === 0) return null;
+  const pageIndex = highlight.areas[0].pageIndex;
+  const { width, height } = pageSize(blocks, pageIndex);
+  const areas = highlight.areas.filter((a) => a.pageIndex === pageIndex);
+  const left = Math.min(...areas.map((a) => a.left)) * width / 100;
+  const top = Math.min(...areas.map((a) => a.top)) * height / 100;
+  const right = Math.max(...areas.map((a) => a.left + a.width)) * width / 100;
+  const bottom = Math.max(...areas.map((a) => a.top + a.height)) * height / 100;
+
+  return {
+    id: highlightBlockId(highlight),
+    type: "Highlight",
+    block_type: "Text",
+    html: `<p>${escapeHtml(highlight.text)}</p>`,
+    polygon: [[left, top], [right, top], [right, bottom], [left, bottom]],
+    pageIndex,
+  };
+}
+
+/**
+ * The document's blocks with each highlight's stand-in block placed right after
+ * the Marker block it falls in, so section and neighbor context still apply.
+ */
+export function withHighlightBlocks(blocks: Block[], highlights: Highlight[]): Block[] {
+  const result = [...blocks];
+  for (const highlight of highlights) {
+    const block = toHighlightBlock(highlight, blocks);
+    if (!block) continue;
+    const [[left, top], , [right, bottom]] = block.polygon;
+    const centerX = (left + right) / 2;
+    const centerY = (top + bottom) / 2;
+
+    const container = result.findLastIndex((b) => {
+      if (b.pageIndex !== block.pageIndex || b.block_type === "Page" || !b.polygon?.length) {
+        return false;
+      }
+      const xs = b.polygon.map((p) => p[0]);
+      const ys = b.polygon.map((p) => p[1]);
+      return centerX >= Math.min(...xs) && centerX <= Math.max(...xs) &&
+        centerY >= Math.min(...ys) && centerY <= Math.max(...ys);
+    });
+    const lastOnPage = result.findLastIndex((b) => b.pageIndex === block.pageIndex);
+    const at = container >= 0 ? container : lastOnPage;
+    // The highlight belongs to the section of the block it was placed after
+    result.splice(at + 1, 0, { ...block, section_hierarchy: result[at]?.section_hierarchy ?? null });
+  }
+  return result;
+}
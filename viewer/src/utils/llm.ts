@@ -0,0 +1,248 @@
+// Server-only: provider credentials come from the server environment and are
+// used by the /api/chat route. Client code goes through utils/api instead.
+import {
+  FIREWORKS_BASE_URL,
+  FIREWORKS_MODEL_IDS,
+  stripModelUsed,
+  type DobbyModel,
+  type Message,
+} from "./fireworks";
+import { isDemoMode } from "./demo";
+import { demoReply } from "./demoResponder";
+
+// A failed response from a provider, keeping its status so the route can pass on
+// auth and rate-limit failures instead of reporting every error as a 502
+export class ProviderError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+// A chat-completion backend. `model` is the provider-specific model name.
+export interface LLMProvider {
+  name: string;
+  complete(messages: Message[], model: string, signal?: AbortSignal): Promise<string>;
+  stream(messages: Message[], model: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export type ProviderKind = 'fireworks' | 'openai-compatible' | 'mock' | 'demo';
+
+// Which provider and model a Dobby persona runs on
+export interface ModelBinding {
+  provider: ProviderKind;
+  model: string;
+}
+
+/**
+ * Provider for any endpoint that speaks the OpenAI chat-completions protocol
+ * (Fireworks, llama.cpp's server, Ollama, vLLM, ...).
+ */
+export function createOpenAICompatibleProvider(options: {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+}): LLMProvider {
+  const { name, baseUrl, apiKey } = options;
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = async (body: object, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new ProviderError(`${name} API error: ${response.status} - ${text}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    name,
+
+    async complete(messages, model, signal) {
+      const response = await request({ model, messages: stripModelUsed(messages) }, signal);
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '(No response)';
+    },
+
+    // Yields each text delta of the SSE stream as it arrives.
+    // Aborting the signal ends the stream; whatever was yielded so far stands.
+    async *stream(messages, model, signal) {
+      const response = await request(
+        { model, messages: stripModelUsed(messages), stream: true },
+        signal
+      );
+      if (!response.body) throw new Error(`${name} API error: empty stream`);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // SSE events are newline-delimited; keep any trailing partial line for the next read
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+
+            const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  };
+}
+
+export function createFireworksProvider(apiKey: string | undefined): LLMProvider {
+  if (!apiKey) {
+    throw new ProviderError("Missing Fireworks API key", 401);
+  }
+  return createOpenAICompatibleProvider({ name: 'Fireworks', baseUrl: FIREWORKS_BASE_URL, apiKey });
+}
+
+// Yield a finished reply word by word, so offline providers stream like real ones
+async function* streamWords(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  for (const word of text.match(/\S+\s*/g) ?? []) {
+    if (signal?.aborted) return;
+    // Yield to the event loop so the UI renders the reply growing
+    await new Promise(resolve => setTimeout(resolve, 0));
+    yield word;
+  }
+}
+
+/**
+ * Deterministic offline provider: the reply depends only on the model name and
+ * the last user message, so UI work and demos behave the same on every run.
+ */
+export function createMockProvider(): LLMProvider {
+  const reply = (messages: Message[], model: string) => {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const question = lastUser?.content.trim() || '(nothing)';
+    return `[mock ${model}] You said: "${question}". This is a canned reply from the mock provider.`;
+  };
+
+  return {
+    name: 'Mock',
+
+    async complete(messages, model) {
+      return reply(messages, model);
+    },
+
+    stream(messages, model, signal) {
+      return streamWords(reply(messages, model), signal);
+    },
+  };
+}
+
+/**
+ * Offline provider for demo mode: scripted replies that quote the passages in
+ * the prompt and match what each feature parses. `model` is the Dobby's name.
+ */
+export function createDemoProvider(): LLMProvider {
+  const reply = (messages: Message[], model: string) =>
+    demoReply(messages, model === 'unhinged' ? 'unhinged' : 'leashed');
+
+  return {
+    name: 'Demo',
+
+    async complete(messages, model) {
+      return reply(messages, model);
+    },
+
+    stream(messages, model, signal) {
+      return streamWords(reply(messages, model), signal);
+    },
+  };
+}
+
+const DEFAULT_MODEL_BINDINGS: Record<DobbyModel, ModelBinding> = {
+  leashed: { provider: 'fireworks', model: FIREWORKS_MODEL_IDS.leashed },
+  unhinged: { provider: 'fireworks', model: FIREWORKS_MODEL_IDS.unhinged },
+};
+
+const PROVIDER_KINDS: ProviderKind[] = ['fireworks', 'openai-compatible', 'mock', 'demo'];
+
+/**
+ * Resolve the provider and model a persona runs on. Demo mode answers every
+ * persona offline; otherwise environment overrides win, and when only the
+ * provider is overridden, the persona name doubles as the model name.
+ */
+export function getModelBinding(dobbyModel: DobbyModel): ModelBinding {
+  if (isDemoMode()) return { provider: 'demo', model: dobbyModel };
+
+  const fallback = DEFAULT_MODEL_BINDINGS[dobbyModel];
+  const prefix = `DOBBY_${dobbyModel.toUpperCase()}`;
+  const override = {
+    provider: process.env[`${prefix}_PROVIDER`],
+    model: process.env[`${prefix}_MODEL`],
+  };
+
+  if (override.provider && !PROVIDER_KINDS.includes(override.provider as ProviderKind)) {
+    throw new Error(`Unknown LLM provider "${override.provider}" for ${dobbyModel} Dobby`);
+  }
+  const provider = (override.provider as ProviderKind | undefined) ?? fallback.provider;
+  const model = override.model
+    ?? (provider === fallback.provider ? fallback.model : dobbyModel);
+
+  return { provider, model };
+}
+
+export function getProvider(kind: ProviderKind): LLMProvider {
+  switch (kind) {
+    case 'fireworks':
+      return createFireworksProvider(process.env.FIREWORKS_API_KEY);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        name: 'OpenAI-compatible',
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8080/v1',
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'demo':
+      return createDemoProvider();
+  }
+}
+
+// Get a full completion from whichever provider backs the given persona
+export async function callModel(
+  messages: Message[],
+  dobbyModel: DobbyModel = 'leashed',
+  signal?: AbortSignal
+): Promise<string> {
+  const { provider, model } = getModelBinding(dobbyModel);
+  return getProvider(provider).complete(messages, model, signal);
+}
+
+// Stream a completion from whichever provider backs the given persona
+export function streamModel(
+  messages: Message[],
+  dobbyModel: DobbyModel = 'leashed',
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const { provider, model } = getModelBinding(dobbyModel);
+  return getProvider(provider).stream(messages, model, signal);
+}
@@ -0,0 +1,155 @@
+import type { Block } from "./documentModel";
+import type { Message } from "./fireworks";
+import { DOCUMENT_CHAT_KEY, type Conversations } from "./conversationStore";
+import { findSectionHeader, htmlToTextWithLatex, stripBlockText } from "./blockContext";
+import { messagePersona, type Persona } from "./personas";
+
+const SESSION_FORMAT = "read-with-dobby-session";
+const SESSION_VERSION = 1;
+
+// Lossless export of a reading session; importing it restores every conversation
+export interface SessionExport {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  docHash: string;
+  fileName: string;
+  exportedAt: string;
+  conversations: Conversations;
+}
+
+function speakerLabel(message: Message, personas: Persona[]): string {
+  if (message.role === "user") return "You";
+  if (message.moderator) return "Moderator ⚖️";
+  const persona = messagePersona(personas, message);
+  if (persona) return persona.name;
+  if (message.modelUsed === "leashed") return "Dobby 😇 (leashed)";
+  if (message.modelUsed === "unhinged") return "Dobby 😈 (unhinged)";
+  return "Dobby";
+}
+
+function quote(text: string): string {
+  return text.split("\n").map((line) => `> ${line}`).join("\n");
+}
+
+function chatToMarkdown(messages: Message[], personas: Persona[]): string {
+  return messages
+    .filter((m) => m.role !== "system")
+    .map((m) => `**${speakerLabel(m, personas)}:** ${m.content.trim()}`)
+    .join("\n\n");
+}
+
+/**
+ * Markdown notebook of every conversation, ordered by page and reading order:
+ * each entry quotes the discussed blocks and then the chat about them.
+ */
+export function exportMarkdown(
+  fileName: string,
+  blocks: Block[],
+  conversations: Conversations,
+  personas: Persona[]
+): string {
+  const position = new Map(blocks.map((b, i) => [b.id, i]));
+  const byId = new Map(blocks.map((b) => [b.id, b]));
+
+  const entries = Object.entries(conversations)
+    .filter(([key, messages]) => key !== DOCUMENT_CHAT_KEY && messages.length > 0)
+    .map(([key, messages]) => {
+      const selection = key
+        .split("+")
+        .map((id) => byId.get(id))
+        .filter((b): b is Block => b !== undefined)
+        .sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+      const first = selection[0];
+      return { key, messages, selection, order: first ? position.get(first.id) ?? 0 : Infinity };
+    })
+    .sort((a, b) => a.order - b.order);
+
+  const sections: string[] = [`# Reading notes: ${fileName}`];
+
+  for (const { key, messages, selection } of entries) {
+    const first = selection[0];
+    const header = first ? findSectionHeader(first, blocks) : null;
+    const page = first ? `Page ${(first.pageIndex ?? 0) + 1}` : "Unknown page";
+    const title = header ? `${page} · ${stripBlockText(header)}` : page;
+
+    const quoted = selection.length > 0
+      ? selection.map((b) => quote(htmlToTextWithLatex(b.html) || `(${b.block_type})`)).join("\n>\n")
+      : quote(`(Blocks no longer found: ${key})`);
+
+    sections.push(`## ${title}\n\n${quoted}\n\n${chatToMarkdown(messages, personas)}`);
+  }
+
+  const documentChat = conversations[DOCUMENT_CHAT_KEY];
+  if (documentChat?.length) {
+    sections.push(`## Questions about the whole document\n\n${chatToMarkdown(documentChat, personas)}`);
+  }
+
+  return `${sections.join("\n\n---\n\n")}\n`;
+}
+
+export function exportSession(
+  docHash: string,
+  fileName: string,
+  conversations: Conversations
+): string {
+  const session: SessionExport = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    docHash,
+    fileName,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  };
+  return JSON.stringify(session, null, 2);
+}
+
+function isMessage(value: unknown): value is Message {
+  if (typeof value !== "object" || value === null) return false;
+  const { role, content, modelUsed, personaId, moderator, summary, failed } = value as Record<string, unknown>;
+  return (
+    (role === "system" || role === "user" || role === "assistant") &&
+    typeof content === "string" &&
+    (modelUsed === undefined || modelUsed === "leashed" || modelUsed === "unhinged") &&
+    (personaId === undefined || typeof personaId === "string") &&
+    (moderator === undefined || typeof moderator === "boolean") &&
+    (summary === undefined || typeof summary === "boolean") &&
+    (failed === undefined || typeof failed === "boolean")
+  );
+}
+
+// Parse and validate an exported session, throwing a readable error if it is not one
+export function parseSession(json: string): SessionExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const session = data as Partial<SessionExport> | null;
+  if (session?.format !== SESSION_FORMAT) {
+    throw new Error("The file is not a Read with Dobby session export.");
+  }
+  if (typeof session.version !== "number" || session.version > SESSION_VERSION) {
+    throw new Error(`Unsupported session version: ${session.version}`);
+  }
+  if (typeof session.docHash !== "string" || typeof session.conversations !== "object" || !session.conversations) {
+    throw new Error("The session export is missing its document or conversations.");
+  }
+  for (const [key, messages] of Object.entries(session.conversations)) {
+    if (!Array.isArray(messages) || !messages.every(isMessage)) {
+      throw new Error(`The conversation "${key}" in the session export is malformed.`);
+    }
+  }
+  return session as SessionExport;
+}
+
+// Offer `content` to the user as a file download
+export function downloadFile(name: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
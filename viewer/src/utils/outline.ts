@@ -0,0 +1,96 @@
+import type { Block } from "./documentModel";
+import { isContentBlock, stripBlockText } from "./blockContext";
+
+export interface OutlineEntry {
+  id: string;
+  title: string;
+  // Heading level from the h1–h6 tag, 1 being the top
+  level: number;
+  // Nesting depth after normalizing Marker's sometimes-skipped levels, 0 being the top
+  depth: number;
+  pageIndex: number;
+  // Content blocks from this heading up to the next one
+  blockIds: string[];
+}
+
+function headingLevel(html: string): number {
+  const match = html.match(/<h([1-6])[\s>]/i);
+  return match ? Number(match[1]) : 1;
+}
+
+// Depth from level with a stack of open headings, so h1 > h4 nests one deep, not three
+function assignDepths(entries: OutlineEntry[]): OutlineEntry[] {
+  const open: number[] = [];
+  for (const entry of entries) {
+    while (open.length > 0 && open[open.length - 1] >= entry.level) open.pop();
+    entry.depth = open.length;
+    open.push(entry.level);
+  }
+  return entries;
+}
+
+/**
+ * Outline from a TableOfContents block, for documents where Marker found no
+ * headings. Rows look like "2.1 | Overview | 5"; numbering depth gives the level
+ * and the trailing printed page number is used as-is.
+ */
+function outlineFromTableOfContents(toc: Block): OutlineEntry[] {
+  const rows = Array.from(
+    new DOMParser().parseFromString(toc.html, "text/html").querySelectorAll("tr")
+  );
+
+  return rows.flatMap((row, i) => {
+    const cells = Array.from(row.querySelectorAll("th, td"))
+      .map((cell) => (cell.textContent ?? "").replace(/\s+/g, " ").trim())
+      .filter(Boolean);
+    const page = Number(cells[cells.length - 1]);
+    if (cells.length < 2 || !Number.isInteger(page)) return [];
+
+    const title = cells.slice(0, -1).join(" ");
+    const numbering = title.match(/^(\d+(?:\.\d+)*)/)?.[1];
+    return [{
+      id: `${toc.id}#${i}`,
+      title,
+      level: numbering ? numbering.split(".").length : 1,
+      depth: 0,
+      pageIndex: Math.max(page - 1, 0),
+      blockIds: [],
+    }];
+  });
+}
+
+// Build the heading outline of a document from its flattened blocks, in reading order
+export function buildOutline(blocks: Block[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+
+  for (const block of blocks) {
+    if (block.block_type === "SectionHeader") {
+      entries.push({
+        id: block.id,
+        title: stripBlockText(block) || "(Untitled section)",
+        level: headingLevel(block.html),
+        depth: 0,
+        pageIndex: block.pageIndex ?? 0,
+        blockIds: [],
+      });
+    } else if (entries.length > 0 && isContentBlock(block)) {
+      entries[entries.length - 1].blockIds.push(block.id);
+    }
+  }
+
+  if (entries.length === 0) {
+    const toc = blocks.find((b) => b.block_type === "TableOfContents");
+    if (toc) return assignDepths(outlineFromTableOfContents(toc));
+  }
+  return assignDepths(entries);
+}
+
+// The section being read: the last heading that starts on or before the current page
+export function currentOutlineEntry(entries: OutlineEntry[], pageIndex: number): OutlineEntry | null {
+  let current: OutlineEntry | null = null;
+  for (const entry of entries) {
+    if (entry.pageIndex > pageIndex) break;
+    current = entry;
+  }
+  return current;
+}
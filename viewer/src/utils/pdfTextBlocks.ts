@@ -0,0 +1,146 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+// Served by the app, so it needs no network; scripts/copy-pdf-worker.mjs copies it
+// from the installed pdfjs-dist on install. The viewer's <Worker> uses it too
+export const PDF_WORKER_URL = "/pdf.worker.min.js";
+
+// A line of text in page points, origin at the top left like Marker's polygons
+interface TextLine {
+  text: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  fontSize: number;
+}
+
+// Gap between lines, as a fraction of the font size, above which a new paragraph starts
+const PARAGRAPH_GAP = 0.9;
+// Lines this much larger than the page's body text, and short, read as headings
+const HEADING_SIZE_RATIO = 1.2;
+const MAX_HEADING_CHARS = 120;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function rectangle(left: number, top: number, right: number, bottom: number): number[][] {
+  return [[left, top], [right, top], [right, bottom], [left, bottom]];
+}
+
+// Join pdf.js text items into lines; items arrive in content-stream order.
+// `toPagePoints` maps an item's transform to top-left page points at scale 1.
+function groupLines(items: TextItem[], toPagePoints: (transform: number[]) => number[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+
+  for (const item of items) {
+    if (!item.str.trim()) {
+      if (item.hasEOL) current = null;
+      continue;
+    }
+    const [, , c, d, x, baseline] = toPagePoints(item.transform);
+    const fontSize = Math.hypot(c, d) || 1;
+    const top = baseline - fontSize;
+    const right = x + item.width;
+
+    if (current && Math.abs(current.bottom - baseline) < fontSize * 0.5) {
+      const gap = x - current.right;
+      current.text += (gap > fontSize * 0.15 && !current.text.endsWith(" ") ? " " : "") + item.str;
+      current.left = Math.min(current.left, x);
+      current.right = Math.max(current.right, right);
+      current.top = Math.min(current.top, top);
+      current.fontSize = Math.max(current.fontSize, fontSize);
+    } else {
+      current = { text: item.str, left: x, right, top, bottom: baseline, fontSize };
+      lines.push(current);
+    }
+    if (item.hasEOL) current = null;
+  }
+  return lines;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+/**
+ * Build a Marker-shaped document from the PDF's text layer, for when the Marker
+ * backend is unavailable. Lines are merged into paragraphs by spacing and font
+ * size; large short lines become SectionHeaders so the outline still works.
+ * There are no tables, equations or figures — only text.
+ */
+export async function extractTextDocument(data: ArrayBuffer): Promise<unknown> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_URL;
+  const pdf = await pdfjs.getDocument({ data }).promise;
+
+  const pages = [];
+  let sectionHierarchy: { [level: string]: string } = {};
+
+  try {
+    for (let pageIndex = 0; pageIndex < pdf.numPages; pageIndex++) {
+      const page = await pdf.getPage(pageIndex + 1);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => "str" in item);
+      const lines = groupLines(items, (transform) => pdfjs.Util.transform(viewport.transform, transform));
+      const bodySize = median(lines.map((line) => line.fontSize));
+      // The page opens inside whatever section the previous page ended in
+      const pageHierarchy = sectionHierarchy;
+
+      // Consecutive lines of similar size and spacing form one paragraph
+      const paragraphs: TextLine[][] = [];
+      for (const line of lines) {
+        const paragraph = paragraphs[paragraphs.length - 1];
+        const previous = paragraph?.[paragraph.length - 1];
+        const continues =
+          previous &&
+          line.top - previous.bottom < previous.fontSize * PARAGRAPH_GAP &&
+          line.top >= previous.top &&
+          Math.abs(line.fontSize - previous.fontSize) < previous.fontSize * 0.15;
+        if (continues) paragraph.push(line);
+        else paragraphs.push([line]);
+      }
+
+      const children = paragraphs.map((paragraph, i) => {
+        const text = paragraph.map((line) => line.text.trim()).join(" ").replace(/-\s(?=[a-z])/g, "");
+        const isHeading =
+          paragraph[0].fontSize > bodySize * HEADING_SIZE_RATIO && text.length <= MAX_HEADING_CHARS;
+        const id = `/page/${pageIndex}/${isHeading ? "SectionHeader" : "Text"}/${i}`;
+        if (isHeading) sectionHierarchy = { "2": id };
+
+        return {
+          id,
+          block_type: isHeading ? "SectionHeader" : "Text",
+          html: isHeading ? `<h2>${escapeHtml(text)}</h2>` : `<p>${escapeHtml(text)}</p>`,
+          polygon: rectangle(
+            Math.min(...paragraph.map((line) => line.left)),
+            Math.min(...paragraph.map((line) => line.top)),
+            Math.max(...paragraph.map((line) => line.right)),
+            Math.max(...paragraph.map((line) => line.bottom)) + paragraph[paragraph.length - 1].fontSize * 0.25
+          ),
+          children: null,
+          section_hierarchy: sectionHierarchy,
+          images: null,
+        };
+      });
+
+      pages.push({
+        id: `/page/${pageIndex}/Page/${paragraphs.length}`,
+        block_type: "Page",
+        html: "",
+        polygon: rectangle(0, 0, viewport.width, viewport.height),
+        children,
+        section_hierarchy: pageHierarchy,
+        images: null,
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { success: true, blocks: { block_type: "Document", children: pages }, images: {} };
+}
@@ -0,0 +1,137 @@
+import type { DobbyModel, Message } from "./fireworks";
+import { openDatabase, requestToPromise, transactionDone } from "./db";
+import { DOBBY_VOICES } from "./speech";
+
+// Tailwind classes per persona color, spelled out in full so the JIT picks them up
+export const PERSONA_COLORS = {
+  blue: { bubble: "bg-blue-100", button: "bg-blue-600 hover:bg-blue-700", muted: "bg-blue-400", text: "text-blue-600", ring: "ring-blue-600" },
+  red: { bubble: "bg-red-100", button: "bg-red-600 hover:bg-red-700", muted: "bg-red-400", text: "text-red-600", ring: "ring-red-600" },
+  green: { bubble: "bg-green-100", button: "bg-green-600 hover:bg-green-700", muted: "bg-green-400", text: "text-green-600", ring: "ring-green-600" },
+  amber: { bubble: "bg-amber-100", button: "bg-amber-600 hover:bg-amber-700", muted: "bg-amber-400", text: "text-amber-600", ring: "ring-amber-600" },
+  purple: { bubble: "bg-purple-100", button: "bg-purple-600 hover:bg-purple-700", muted: "bg-purple-400", text: "text-purple-600", ring: "ring-purple-600" },
+  gray: { bubble: "bg-gray-100", button: "bg-gray-600 hover:bg-gray-700", muted: "bg-gray-400", text: "text-gray-600", ring: "ring-gray-600" },
+};
+
+export type PersonaColor = keyof typeof PERSONA_COLORS;
+
+/**
+ * Someone to read with: instructions layered over the block context, the Dobby
+ * model that answers, and how the persona looks and sounds.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  // Prepended to the block context; empty leaves the model's own personality
+  systemPrompt: string;
+  model: DobbyModel;
+  voiceId: string;
+  // Image URL, usually one of the Dobby images in /public
+  avatar: string;
+  color: PersonaColor;
+  createdAt: number;
+}
+
+export const DEFAULT_AVATARS = ["/leashed_dobby.jpg", "/unhinged_dobby.jpg"];
+
+// The original pair. Their IDs match the model names so messages saved before
+// personas existed (which only carry `modelUsed`) resolve to them.
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: "leashed",
+    name: "Dobby 😇",
+    systemPrompt: "",
+    model: "leashed",
+    voiceId: DOBBY_VOICES.leashed,
+    avatar: "/leashed_dobby.jpg",
+    color: "blue",
+    createdAt: 0,
+  },
+  {
+    id: "unhinged",
+    name: "Dobby 😈",
+    systemPrompt: "",
+    model: "unhinged",
+    voiceId: DOBBY_VOICES.unhinged,
+    avatar: "/unhinged_dobby.jpg",
+    color: "red",
+    createdAt: 0,
+  },
+];
+
+// Starting points offered when creating a persona
+export const PERSONA_TEMPLATES: Pick<Persona, "name" | "systemPrompt" | "model" | "color">[] = [
+  {
+    name: "Skeptical Reviewer",
+    systemPrompt:
+      "You are a skeptical peer reviewer. Question the methodology, look for unsupported claims, " +
+      "missing baselines and confounders, and say what evidence would change your mind.",
+    model: "leashed",
+    color: "gray",
+  },
+  {
+    name: "Explain like I'm 12",
+    systemPrompt:
+      "Explain everything as if to a curious 12-year-old: plain words, short sentences, " +
+      "and an everyday analogy for every technical idea.",
+    model: "leashed",
+    color: "green",
+  },
+];
+
+export function isBuiltInPersona(id: string): boolean {
+  return BUILT_IN_PERSONAS.some((p) => p.id === id);
+}
+
+// Built-ins (with any saved edits) first, then the user's own personas oldest first
+export async function loadPersonas(): Promise<Persona[]> {
+  const db = await openDatabase();
+  const tx = db.transaction("personas", "readonly");
+  const saved = await requestToPromise<Persona[]>(tx.objectStore("personas").getAll());
+
+  const builtIns = BUILT_IN_PERSONAS.map((p) => saved.find((s) => s.id === p.id) ?? p);
+  const custom = saved
+    .filter((p) => !isBuiltInPersona(p.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  return [...builtIns, ...custom];
+}
+
+export async function savePersona(persona: Persona): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("personas", "readwrite");
+  tx.objectStore("personas").put(persona);
+  await transactionDone(tx);
+}
+
+// Deleting a built-in persona only drops its saved edits
+export async function deletePersona(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction("personas", "readwrite");
+  tx.objectStore("personas").delete(id);
+  await transactionDone(tx);
+}
+
+// The persona that wrote an assistant message, if it still exists
+export function messagePersona(personas: Persona[], message: Message): Persona | null {
+  const id = message.personaId ?? message.modelUsed;
+  return personas.find((p) => p.id === id) ?? null;
+}
+
+/**
+ * Who to show as the author of an assistant message, and its bubble colour. A
+ * deleted persona's replies keep the name of the model that answered, on gray.
+ */
+export function replySpeaker(
+  personas: Persona[],
+  message: Message
+): { persona: Persona | null; name: string; bubble: string } {
+  const persona = messagePersona(personas, message);
+  if (persona) return { persona, name: persona.name, bubble: PERSONA_COLORS[persona.color].bubble };
+  return { persona: null, name: message.modelUsed === "leashed" ? "Dobby 😇" : "Dobby 😈", bubble: "bg-gray-100" };
+}
+
+// Layer the persona's instructions over the leading system message
+export function applyPersona(messages: Message[], persona: Persona): Message[] {
+  if (!persona.systemPrompt.trim() || messages[0]?.role !== "system") return messages;
+  const [system, ...rest] = messages;
+  return [{ ...system, content: `${persona.systemPrompt.trim()}\n\n${system.content}` }, ...rest];
+}
@@ -0,0 +1,126 @@
+import type { Block } from "./documentModel";
+import type { Message } from "./fireworks";
+import { blockKind, htmlToTextWithLatex } from "./blockContext";
+
+export interface QuizQuestion {
+  question: string;
+  answer: string;
+  // Blocks the answer comes from, for jumping back to the text
+  sourceBlockIds: string[];
+}
+
+export type QuizVerdict = "correct" | "partial" | "incorrect";
+
+export interface QuizGrade {
+  verdict: QuizVerdict;
+  feedback: string;
+}
+
+export const QUIZ_SIZES = [3, 5, 8];
+
+// Source text handed to the model; long sections are cut at a block boundary
+const MAX_QUIZ_SOURCE_CHARS = 8000;
+
+/**
+ * Request for `count` questions about the given blocks. Each block is labeled
+ * with its ID so the model can say where every answer comes from.
+ */
+export function quizRequestMessages(blocks: Block[], count: number): Message[] {
+  const passages: string[] = [];
+  let length = 0;
+  for (const block of blocks) {
+    if (blockKind(block) === null) continue;
+    const text = htmlToTextWithLatex(block.html);
+    if (!text) continue;
+    if (length + text.length > MAX_QUIZ_SOURCE_CHARS && passages.length > 0) break;
+    passages.push(`[${block.id}]\n${text}`);
+    length += text.length;
+  }
+
+  return [
+    {
+      role: "system",
+      content: [
+        "You write study questions about a passage the user is reading. The passage, block by block:",
+        ...passages,
+      ].join("\n\n"),
+    },
+    {
+      role: "user",
+      content:
+        `Write ${count} questions that test understanding of this passage, not trivia. ` +
+        "Reply with only JSON, no prose, in exactly this shape:\n" +
+        '{"questions": [{"question": "...", "answer": "...", "sourceBlockIds": ["/page/0/Text/1"]}]}\n' +
+        "Keep each answer to one or two sentences, and list the IDs of the blocks it comes from.",
+    },
+  ];
+}
+
+// Models often wrap JSON in prose or a code fence; take the outermost object
+export function extractJson(raw: string): unknown {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start < 0 || end <= start) throw new Error("The reply contained no JSON object");
+  try {
+    return JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    throw new Error("The reply's JSON could not be parsed");
+  }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/**
+ * Parse and validate a quiz reply. Questions missing a question or answer are
+ * dropped; source IDs that are not among `knownIds` are ignored. Throws a
+ * readable error when nothing usable is left.
+ */
+export function parseQuiz(raw: string, knownIds: Set<string>): QuizQuestion[] {
+  const data = extractJson(raw) as { questions?: unknown };
+  if (!Array.isArray(data.questions)) {
+    throw new Error('The reply is missing a "questions" list');
+  }
+
+  const questions = data.questions.flatMap((item): QuizQuestion[] => {
+    if (typeof item !== "object" || item === null) return [];
+    const { question, answer, sourceBlockIds } = item as Record<string, unknown>;
+    if (!isNonEmptyString(question) || !isNonEmptyString(answer)) return [];
+    const sources = Array.isArray(sourceBlockIds)
+      ? sourceBlockIds.filter((id): id is string => typeof id === "string" && knownIds.has(id))
+      : [];
+    return [{ question: question.trim(), answer: answer.trim(), sourceBlockIds: sources }];
+  });
+
+  if (questions.length === 0) throw new Error("The reply had no valid questions");
+  return questions;
+}
+
+// Request to grade the reader's answer against the expected one
+export function gradeRequestMessages(question: QuizQuestion, userAnswer: string): Message[] {
+  return [
+    {
+      role: "system",
+      content:
+        "You grade a reader's answer to a study question. Be fair: accept answers that are " +
+        "worded differently but mean the same thing.",
+    },
+    {
+      role: "user",
+      content:
+        `Question: ${question.question}\nExpected answer: ${question.answer}\n` +
+        `Reader's answer: ${userAnswer}\n\n` +
+        "Reply with only JSON in exactly this shape:\n" +
+        '{"verdict": "correct" | "partial" | "incorrect", "feedback": "one or two sentences"}',
+    },
+  ];
+}
+
+export function parseGrade(raw: string): QuizGrade {
+  const { verdict, feedback } = extractJson(raw) as Record<string, unknown>;
+  if (verdict !== "correct" && verdict !== "partial" && verdict !== "incorrect") {
+    throw new Error('The grade is missing a valid "verdict"');
+  }
+  return { verdict, feedback: isNonEmptyString(feedback) ? feedback.trim() : "" };
+}
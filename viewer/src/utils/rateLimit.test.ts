@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import { createRateLimiter, getSession, withSessionCookie } from "./rateLimit";
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost/api/chat", { method: "POST", headers });
+}
+
+// The cookie the server hands out on a client's first request
+function issuedCookie(): string {
+  const session = getSession(request());
+  const response = withSessionCookie(NextResponse.json({}), session);
+  return `dobby_session=${response.cookies.get("dobby_session")!.value}`;
+}
+
+describe("getSession", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("keeps a session the server issued", () => {
+    const cookie = issuedCookie();
+    const first = getSession(request({ cookie }));
+    const second = getSession(request({ cookie }));
+
+    expect(first.isNew).toBe(false);
+    expect(second.limitKey).toBe(first.limitKey);
+    expect(first.limitKey).toMatch(/^session:/);
+  });
+
+  it("does not accept unsigned or tampered cookies", () => {
+    const [, signature] = issuedCookie().split(".");
+    for (const cookie of ["dobby_session=made-up", `dobby_session=another-id.${signature}`]) {
+      const session = getSession(request({ cookie }));
+      expect(session.isNew).toBe(true);
+      expect(session.limitKey).toBe("address:unknown");
+    }
+  });
+
+  it("doesn't reset the count for a client forging a new cookie on every request", () => {
+    const limiter = createRateLimiter({ limit: 3, windowMs: 60_000 });
+    const results = Array.from({ length: 5 }, () => {
+      const cookie = `dobby_session=${crypto.randomUUID()}.${crypto.randomUUID()}`;
+      return limiter.check(getSession(request({ cookie })).limitKey).allowed;
+    });
+
+    expect(results).toEqual([true, true, true, false, false]);
+  });
+
+  it("reads the forwarded address only behind a trusted proxy", () => {
+    const forwarded = { "x-forwarded-for": "203.0.113.9, 198.51.100.7" };
+    expect(getSession(request(forwarded)).limitKey).toBe("address:unknown");
+
+    vi.stubEnv("TRUST_PROXY", "1");
+    // The proxy appends the address it saw; earlier entries come from the client
+    expect(getSession(request(forwarded)).limitKey).toBe("address:198.51.100.7");
+  });
+});
@@ -0,0 +1,107 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+const SESSION_COOKIE = "dobby_session";
+
+// Signs session cookies. Without SESSION_SECRET a per-process key is used, so
+// sessions end on restart along with the limiter's in-memory counts
+const SESSION_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+export interface Session {
+  sessionId: string;
+  isNew: boolean;
+  // What the rate limiter counts against: the session, or the client's address until it has one
+  limitKey: string;
+}
+
+function sign(sessionId: string): string {
+  return createHmac("sha256", SESSION_SECRET).update(sessionId).digest("base64url");
+}
+
+// The session ID in a cookie value "<id>.<signature>", or null unless this server signed it
+function verifiedSessionId(cookie: string): string | null {
+  const separator = cookie.lastIndexOf(".");
+  if (separator <= 0) return null;
+  const sessionId = cookie.slice(0, separator);
+  const signature = Buffer.from(cookie.slice(separator + 1));
+  const expected = Buffer.from(sign(sessionId));
+  return signature.length === expected.length && timingSafeEqual(signature, expected) ? sessionId : null;
+}
+
+/**
+ * The client's address. Forwarding headers are set by whoever sends the
+ * request, so they are only read when TRUST_PROXY says a proxy in front of the
+ * app writes them; its own hop is the last entry of X-Forwarded-For.
+ */
+function clientAddress(request: NextRequest): string {
+  if (process.env.TRUST_PROXY !== "1") return "unknown";
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return forwarded || request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * Read the caller's session from its signed cookie, minting a new one if the
+ * cookie is absent or was not issued here. New IDs must be written back with
+ * `withSessionCookie`. Until it has a session a request is limited by its
+ * address, so dropping or forging cookies doesn't reset the limit.
+ */
+export function getSession(request: NextRequest): Session {
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  const existing = cookie ? verifiedSessionId(cookie) : null;
+  if (existing) return { sessionId: existing, isNew: false, limitKey: `session:${existing}` };
+  return { sessionId: randomUUID(), isNew: true, limitKey: `address:${clientAddress(request)}` };
+}
+
+export function withSessionCookie<T extends NextResponse>(
+  response: T,
+  session: Session
+): T {
+  if (session.isNew) {
+    response.cookies.set(SESSION_COOKIE, `${session.sessionId}.${sign(session.sessionId)}`, {
+      httpOnly: true,
+      sameSite: "strict",
+      path: "/",
+    });
+  }
+  return response;
+}
+
+/**
+ * Fixed-window, in-memory limiter. State lives in the server process, so limits
+ * reset on restart and are per instance — enough to stop a runaway tab.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    // Count one request for `key`; returns how long to wait when over the limit
+    check(key: string): { allowed: boolean; retryAfterSeconds: number } {
+      const now = Date.now();
+      const current = windows.get(key);
+
+      if (!current || now - current.start >= windowMs) {
+        // Drop expired windows so the map doesn't grow with every session ever seen
+        for (const [k, w] of windows) {
+          if (now - w.start >= windowMs) windows.delete(k);
+        }
+        windows.set(key, { start: now, count: 1 });
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+
+      if (current.count >= limit) {
+        const retryAfterSeconds = Math.ceil((current.start + windowMs - now) / 1000);
+        return { allowed: false, retryAfterSeconds };
+      }
+
+      current.count++;
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+}
+
+export function rateLimitedResponse(retryAfterSeconds: number): NextResponse {
+  return NextResponse.json(
+    { error: `Too many requests. Try again in ${retryAfterSeconds}s.` },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
@@ -0,0 +1,123 @@
+import type { OutlineEntry } from "./outline";
+import { openDatabase, requestToPromise, transactionDone } from "./db";
+
+// How far the reader has worked through each block of a document. Dwell time is
+// the time the block's page was on screen; the flags only ever switch on.
+export interface BlockProgress {
+  docHash: string;
+  blockId: string;
+  dwellMs: number;
+  // On screen for at least VIEWED_AFTER_MS
+  viewed: boolean;
+  // Selected into the chat pane
+  opened: boolean;
+  // Asked about in a chat
+  discussed: boolean;
+  updatedAt: number;
+}
+
+export type ReadingProgress = { [blockId: string]: BlockProgress };
+
+export type ProgressChange =
+  | { dwellMs: number }
+  | { flag: "opened" | "discussed" };
+
+// A page has to stay up this long before its blocks count as read
+export const VIEWED_AFTER_MS = 3000;
+
+// 0 untouched, 1 viewed, 2 opened in chat, 3 discussed
+export type EngagementLevel = 0 | 1 | 2 | 3;
+
+// Overlay tints for the heatmap, indexed by engagement level
+export const HEATMAP_TINTS: Record<EngagementLevel, string> = {
+  0: "rgba(239, 68, 68, 0.12)",
+  1: "rgba(34, 197, 94, 0.12)",
+  2: "rgba(34, 197, 94, 0.25)",
+  3: "rgba(21, 128, 61, 0.4)",
+};
+
+export async function loadProgress(docHash: string): Promise<ReadingProgress> {
+  const db = await openDatabase();
+  const tx = db.transaction("readingProgress", "readonly");
+  const records = await requestToPromise<BlockProgress[]>(
+    tx.objectStore("readingProgress").index("docHash").getAll(docHash)
+  );
+  return Object.fromEntries(records.map((record) => [record.blockId, record]));
+}
+
+export async function saveProgress(records: BlockProgress[]): Promise<void> {
+  if (records.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction("readingProgress", "readwrite");
+  const store = tx.objectStore("readingProgress");
+  for (const record of records) store.put(record);
+  await transactionDone(tx);
+}
+
+// Updated records for the given blocks; records whose state did not change are left out
+export function applyProgress(
+  progress: ReadingProgress,
+  docHash: string,
+  blockIds: string[],
+  change: ProgressChange
+): BlockProgress[] {
+  const now = Date.now();
+  return blockIds.flatMap((blockId) => {
+    const previous: BlockProgress = progress[blockId] ?? {
+      docHash,
+      blockId,
+      dwellMs: 0,
+      viewed: false,
+      opened: false,
+      discussed: false,
+      updatedAt: now,
+    };
+    if ("flag" in change) {
+      if (previous[change.flag]) return [];
+      return [{ ...previous, [change.flag]: true, updatedAt: now }];
+    }
+    const dwellMs = previous.dwellMs + change.dwellMs;
+    return [{ ...previous, dwellMs, viewed: previous.viewed || dwellMs >= VIEWED_AFTER_MS, updatedAt: now }];
+  });
+}
+
+export function engagementLevel(record: BlockProgress | undefined): EngagementLevel {
+  if (!record) return 0;
+  if (record.discussed) return 3;
+  if (record.opened) return 2;
+  return record.viewed ? 1 : 0;
+}
+
+export function isRead(record: BlockProgress | undefined): boolean {
+  return engagementLevel(record) > 0;
+}
+
+// Share of the given blocks that have been read, from 0 to 1
+export function readFraction(blockIds: string[], progress: ReadingProgress): number {
+  if (blockIds.length === 0) return 0;
+  return blockIds.filter((id) => isRead(progress[id])).length / blockIds.length;
+}
+
+/**
+ * The first section after `current` (wrapping around to the start) that still
+ * has unread blocks, or null when every section has been read.
+ */
+export function nextUnreadSection(
+  outline: OutlineEntry[],
+  progress: ReadingProgress,
+  current: OutlineEntry | null
+): OutlineEntry | null {
+  const start = current ? outline.findIndex((entry) => entry.id === current.id) + 1 : 0;
+  for (let i = 0; i < outline.length; i++) {
+    const entry = outline[(start + i) % outline.length];
+    if (entry.blockIds.some((id) => !isRead(progress[id]))) return entry;
+  }
+  return null;
+}
+
+export function formatDwell(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,46 @@
+import DOMPurify from "dompurify";
+import katex from "katex";
+
+// Marker's block HTML is built from the uploaded PDF, so it is sanitized before
+// it reaches the page. Its <math> elements hold LaTeX source; they are swapped
+// for placeholders, the rest is sanitized, and the math is then rendered with
+// KaTeX, whose own output (with `trust` off) is safe to insert.
+
+const MATH_PLACEHOLDER = "data-math-index";
+
+function renderLatex(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, { displayMode, throwOnError: false, output: "htmlAndMathml" });
+}
+
+// Sanitized block HTML with its equations typeset
+export function renderBlockHtml(html: string): string {
+  const source = new DOMParser().parseFromString(html, "text/html").body;
+  const equations: { tex: string; display: boolean }[] = [];
+  source.querySelectorAll("math").forEach((math) => {
+    const placeholder = source.ownerDocument.createElement("span");
+    placeholder.setAttribute(MATH_PLACEHOLDER, String(equations.length));
+    equations.push({ tex: math.textContent?.trim() ?? "", display: math.getAttribute("display") === "block" });
+    math.replaceWith(placeholder);
+  });
+
+  const clean = DOMPurify.sanitize(source.innerHTML, {
+    RETURN_DOM_FRAGMENT: true,
+    FORBID_TAGS: ["style", "form", "input", "button"],
+    FORBID_ATTR: ["style"],
+  });
+  clean.querySelectorAll(`[${MATH_PLACEHOLDER}]`).forEach((placeholder) => {
+    const equation = equations[Number(placeholder.getAttribute(MATH_PLACEHOLDER))];
+    if (!equation) {
+      placeholder.remove();
+      return;
+    }
+    const rendered = document.createElement(equation.display ? "div" : "span");
+    if (equation.display) rendered.className = "overflow-x-auto";
+    rendered.innerHTML = renderLatex(equation.tex, equation.display);
+    placeholder.replaceWith(rendered);
+  });
+
+  const container = document.createElement("div");
+  container.appendChild(clean);
+  return container.innerHTML;
+}
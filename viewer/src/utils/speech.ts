@@ -0,0 +1,52 @@
+import type { DobbyModel } from "./fireworks";
+import { fetchSpeech } from "./api";
+
+// ElevenLabs voice for each Dobby
+export const DOBBY_VOICES: Record<DobbyModel, string> = {
+  leashed: "ThT5KcBeYPX3keUQqHPh", // Charlie (cheerful)
+  unhinged: "VR6AewLTigWG4xSOukaG", // Adam (deep)
+};
+
+// Clips kept in memory; the oldest is dropped first
+const MAX_CACHED_CLIPS = 100;
+
+// Synthesized audio by voice and text, so replaying a message or block costs nothing.
+// Promises are cached so a clip being prefetched is not requested twice.
+const audioCache = new Map<string, Promise<Blob>>();
+
+export function getSpeech(text: string, voiceId: string): Promise<Blob> {
+  const key = `${voiceId}:${text}`;
+  const cached = audioCache.get(key);
+  if (cached) {
+    // Re-insert so the Map's insertion order tracks recent use
+    audioCache.delete(key);
+    audioCache.set(key, cached);
+    return cached;
+  }
+
+  const clip = fetchSpeech(text, voiceId);
+  clip.catch(() => audioCache.delete(key));
+  audioCache.set(key, clip);
+  if (audioCache.size > MAX_CACHED_CLIPS) {
+    audioCache.delete(audioCache.keys().next().value!);
+  }
+  return clip;
+}
+
+export function browserSpeechSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+// Speak `text` with the browser's built-in voice, resolving when it finishes or is cancelled
+export function speakWithBrowser(text: string, rate: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = rate;
+    utterance.onend = () => resolve();
+    utterance.onerror = (e) =>
+      e.error === "canceled" || e.error === "interrupted"
+        ? resolve()
+        : reject(new Error(`Speech synthesis error: ${e.error}`));
+    window.speechSynthesis.speak(utterance);
+  });
+}
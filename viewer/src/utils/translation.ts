@@ -0,0 +1,160 @@
+import type { Block } from "./documentModel";
+import type { Message } from "./fireworks";
+import { blockKind, htmlToTextWithLatex } from "./blockContext";
+import { openDatabase, requestToPromise, transactionDone } from "./db";
+import { extractJson } from "./quiz";
+
+export const TRANSLATION_LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Italian",
+  "Portuguese",
+  "Russian",
+  "Chinese (Simplified)",
+  "Japanese",
+  "Korean",
+  "Arabic",
+  "Hindi",
+];
+
+// Source text per request; a page is split into batches so the reply fits the 8K context
+const MAX_BATCH_CHARS = 2500;
+// Glossary entries sent with each request, newest last
+const MAX_GLOSSARY_TERMS = 60;
+
+// Translated blocks and the document's glossary are cached per document and language
+interface TranslationRecord {
+  docHash: string;
+  language: string;
+  blockId: string;
+  text: string;
+  createdAt: number;
+}
+
+interface GlossaryRecord {
+  docHash: string;
+  language: string;
+  terms: Glossary;
+}
+
+// Source term to its chosen translation, so terminology stays consistent across the document
+export type Glossary = { [term: string]: string };
+
+export interface TranslationResult {
+  texts: { [blockId: string]: string };
+  glossary: Glossary;
+}
+
+// Text blocks and headings; tables, equations and figures stay as they are
+export function isTranslatable(block: Block): boolean {
+  return (blockKind(block) === "text" || block.block_type === "SectionHeader") && block.html.trim() !== "";
+}
+
+export async function loadTranslations(
+  docHash: string,
+  language: string
+): Promise<{ texts: { [blockId: string]: string }; glossary: Glossary }> {
+  const db = await openDatabase();
+  const tx = db.transaction(["translations", "glossaries"], "readonly");
+  const [records, glossary] = await Promise.all([
+    requestToPromise<TranslationRecord[]>(
+      tx.objectStore("translations").index("docLanguage").getAll([docHash, language])
+    ),
+    requestToPromise<GlossaryRecord | undefined>(tx.objectStore("glossaries").get([docHash, language])),
+  ]);
+  return {
+    texts: Object.fromEntries(records.map((record) => [record.blockId, record.text])),
+    glossary: glossary?.terms ?? {},
+  };
+}
+
+export async function saveTranslations(
+  docHash: string,
+  language: string,
+  result: TranslationResult
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(["translations", "glossaries"], "readwrite");
+  const now = Date.now();
+  for (const [blockId, text] of Object.entries(result.texts)) {
+    const record: TranslationRecord = { docHash, language, blockId, text, createdAt: now };
+    tx.objectStore("translations").put(record);
+  }
+  const glossary: GlossaryRecord = { docHash, language, terms: result.glossary };
+  tx.objectStore("glossaries").put(glossary);
+  await transactionDone(tx);
+}
+
+// Split blocks into requests of bounded size, in reading order
+export function translationBatches(blocks: Block[]): Block[][] {
+  const batches: Block[][] = [];
+  let length = 0;
+  for (const block of blocks) {
+    const size = htmlToTextWithLatex(block.html).length;
+    if (batches.length === 0 || (length + size > MAX_BATCH_CHARS && batches[batches.length - 1].length > 0)) {
+      batches.push([]);
+      length = 0;
+    }
+    batches[batches.length - 1].push(block);
+    length += size;
+  }
+  return batches;
+}
+
+/**
+ * Request to translate blocks into `language`. Each block is labeled with its
+ * ID so the reply can be matched back; the glossary built up so far is passed
+ * along, and the reply adds any new technical terms to it.
+ */
+export function translationRequestMessages(blocks: Block[], language: string, glossary: Glossary): Message[] {
+  const terms = Object.entries(glossary).slice(-MAX_GLOSSARY_TERMS);
+  return [
+    {
+      role: "system",
+      content:
+        `You translate passages of a document into ${language}. Translate faithfully and completely, ` +
+        "keeping the meaning, tone and any LaTeX written between $ signs unchanged. " +
+        (terms.length > 0
+          ? "Use these translations for terms that appear, so the document stays consistent:\n" +
+            terms.map(([term, translation]) => `${term} → ${translation}`).join("\n")
+          : ""),
+    },
+    {
+      role: "user",
+      content:
+        blocks.map((b) => `[${b.id}]\n${htmlToTextWithLatex(b.html)}`).join("\n\n") +
+        "\n\nReply with only JSON, no prose, in exactly this shape:\n" +
+        '{"translations": {"/page/0/Text/1": "..."}, "glossary": {"source term": "translated term"}}\n' +
+        "Include every block ID above. In the glossary, list technical terms you translated " +
+        "that are not already in the list you were given.",
+    },
+  ];
+}
+
+/**
+ * Parse a translation reply, keeping only blocks that were asked for and
+ * merging new glossary terms into `glossary`. Throws a readable error when no
+ * block came back.
+ */
+export function parseTranslation(raw: string, requestedIds: Set<string>, glossary: Glossary): TranslationResult {
+  const data = extractJson(raw) as { translations?: unknown; glossary?: unknown };
+  if (typeof data.translations !== "object" || data.translations === null) {
+    throw new Error('The reply is missing "translations"');
+  }
+
+  const texts: { [blockId: string]: string } = {};
+  for (const [id, text] of Object.entries(data.translations)) {
+    if (requestedIds.has(id) && typeof text === "string" && text.trim()) texts[id] = text.trim();
+  }
+  if (Object.keys(texts).length === 0) throw new Error("The reply had no translated blocks");
+
+  const merged = { ...glossary };
+  if (typeof data.glossary === "object" && data.glossary !== null) {
+    for (const [term, translation] of Object.entries(data.glossary)) {
+      if (typeof translation === "string" && term.trim() && !(term in merged)) merged[term] = translation.trim();
+    }
+  }
+  return { texts, glossary: merged };
+}